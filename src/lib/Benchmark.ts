@@ -0,0 +1,49 @@
+import { Size } from "./Canvas";
+import { Box, Circle, Eye, Level, Polygon, RevArray, Shape } from "./Level";
+
+// mulberry32, seeded so every run builds the same level
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// a crowded level of small shapes with patrolling eyes, for checking castRays stays fast
+export function benchmarkLevel(size: Size, shapeCount = 400, eyeCount = 40, seed = 1): Level {
+    const random = seededRandom(seed);
+    const between = (min: number, max: number) => min + random() * (max - min);
+
+    const shapes = new RevArray<Shape>();
+    for (let i = 0; i < shapeCount; i++) {
+        const p = { x: between(0, size.w), y: between(0, size.h) };
+        const kind = random();
+        if (kind < 0.6) {
+            shapes.push(new Box({ x: p.x, y: p.y, w: between(10, 40), h: between(10, 40) }));
+        } else if (kind < 0.8) {
+            const circle = new Circle(p);
+            circle.radius = between(5, 20);
+            shapes.push(circle);
+        } else {
+            const triangle = new Polygon(p);
+            triangle.corners.push({ x: p.x + between(10, 40), y: p.y + between(-20, 20) }, { x: p.x + between(-20, 20), y: p.y + between(10, 40) });
+            shapes.push(triangle);
+        }
+    }
+
+    const eyes: Eye[] = [];
+    while (eyes.length < eyeCount) {
+        const eye = new Eye({ x: between(0, size.w), y: between(0, size.h) });
+        if (shapes.some(shape => shape.contains(eye.pos)))
+            continue;
+
+        eye.angle = between(-Math.PI, Math.PI);
+        eye.dist = between(150, 300);
+        eye.patrol = [1, 2].map(() => {
+            return { pos: { x: between(0, size.w), y: between(0, size.h) }, wait: between(0, 2) };
+        });
+        eyes.push(eye);
+    }
+
+    return { shapes, eyes };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import Camera from "./Camera";
+
+describe("Camera", () => {
+    it("round-trips between world and screen", () => {
+        const camera = new Camera();
+        camera.pos = { x: 100, y: -50 };
+        camera.zoom = 2;
+
+        expect(camera.toScreen({ x: 110, y: -40 })).toEqual({ x: 20, y: 20 });
+        expect(camera.toWorld({ x: 20, y: 20 })).toEqual({ x: 110, y: -40 });
+        expect(camera.viewRect({ w: 800, h: 600 })).toEqual({ x: 100, y: -50, w: 400, h: 300 });
+    });
+
+    it("keeps the point under the cursor fixed when zooming", () => {
+        const camera = new Camera();
+        const cursor = { x: 300, y: 200 };
+        const before = camera.toWorld(cursor);
+
+        camera.zoomAt(cursor, 1.5);
+        const after = camera.toWorld(cursor);
+        expect(after.x).toBeCloseTo(before.x);
+        expect(after.y).toBeCloseTo(before.y);
+        expect(camera.zoom).toBe(1.5);
+    });
+
+    it("clamps the zoom", () => {
+        const camera = new Camera();
+        camera.zoomAt({ x: 0, y: 0 }, 1000);
+        expect(camera.zoom).toBe(camera.maxZoom);
+        camera.zoom = 0;
+        expect(camera.zoom).toBe(camera.minZoom);
+    });
+
+    it("pans by screen distance", () => {
+        const camera = new Camera();
+        camera.zoom = 2;
+        camera.panBy({ x: 20, y: -10 });
+        expect(camera.pos).toEqual({ x: -10, y: 5 });
+    });
+});
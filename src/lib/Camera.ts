@@ -0,0 +1,47 @@
+import Canvas, { Point, Rect, Size } from "./Canvas";
+
+// maps between world coordinates (where the level lives) and screen coordinates (pointer events, UI overlays)
+export default class Camera {
+    pos: Point = { x: 0, y: 0 }; // world position of the screen's top-left corner
+    minZoom = 0.1;
+    maxZoom = 8;
+
+    #zoom = 1;
+    public get zoom(): number { return this.#zoom; }
+    public set zoom(zoom: number) { this.#zoom = Math.min(this.maxZoom, Math.max(this.minZoom, zoom)); }
+
+    toWorld(p: Point): Point {
+        return { x: p.x / this.zoom + this.pos.x, y: p.y / this.zoom + this.pos.y };
+    }
+
+    toScreen(p: Point): Point {
+        return { x: (p.x - this.pos.x) * this.zoom, y: (p.y - this.pos.y) * this.zoom };
+    }
+
+    // the part of the world visible on a screen of the given size
+    viewRect(size: Size): Rect {
+        return { x: this.pos.x, y: this.pos.y, w: size.w / this.zoom, h: size.h / this.zoom };
+    }
+
+    // zooms by factor, keeping the world point under p (screen) where it is
+    zoomAt(p: Point, factor: number) {
+        const before = this.toWorld(p);
+        this.zoom *= factor;
+        const after = this.toWorld(p);
+        this.pos = { x: this.pos.x + before.x - after.x, y: this.pos.y + before.y - after.y };
+    }
+
+    // moves the view so the world follows a screen-space drag
+    panBy(delta: Point) {
+        this.pos = { x: this.pos.x - delta.x / this.zoom, y: this.pos.y - delta.y / this.zoom };
+    }
+
+    // draws in world coordinates
+    apply(canvas: Canvas, scopedFunc: () => void) {
+        canvas.ctx.save();
+        canvas.ctx.scale(this.zoom, this.zoom);
+        canvas.ctx.translate(-this.pos.x, -this.pos.y);
+        scopedFunc();
+        canvas.ctx.restore();
+    }
+}
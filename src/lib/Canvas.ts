@@ -15,6 +15,7 @@ type Brush = string | CanvasGradient | CanvasPattern;
 type PointerEventHandler = (ev: PointerEvent, p: Point) => void;
 type KeyEventHandler = (ev: KeyboardEvent) => void;
 type WheelEventHandler = (ev: WheelEvent, p: Point) => void;
+type DropEventHandler = (ev: DragEvent, p: Point) => void;
 
 export type TextAlignment = {
     horizontal: 'left' | 'center' | 'right',
@@ -52,8 +53,9 @@ export default class Canvas {
 
     createChild(size: Size = { w: this.size.w, h: this.size.h }): Canvas {
         const canvas = new Canvas(document.createElement('canvas'), size.w, size.h);
-        canvas.canvas.width = size.w;
-        canvas.canvas.height = size.h;
+        canvas.devicePixelRatio = this.devicePixelRatio;
+        canvas.canvas.width = size.w * this.devicePixelRatio;
+        canvas.canvas.height = size.h * this.devicePixelRatio;
         canvas.ctx.scale(this.devicePixelRatio, this.devicePixelRatio);
         return canvas;
     }
@@ -188,8 +190,9 @@ export default class Canvas {
         this.ctx.restore();
     }
 
+    // src is in the source canvas' pixels, dst in this canvas' (scaled) coordinates
     drawCanvas(canvas: Canvas, src?: Rect, dst?: Rect) {
-        src ??= canvas.rect;
+        src ??= { x: 0, y: 0, w: canvas.canvas.width, h: canvas.canvas.height };
         dst ??= this.rect;
         this.ctx.drawImage(canvas.canvas,
             src.x, src.y, src.w, src.h,
@@ -267,6 +270,11 @@ export default class Canvas {
         this.ctx.strokeText(text, textPos.x, textPos.y,);
     }
 
+    isPointInPath(path: Path2D, p: Point): boolean {
+        // the path is transformed by the context's scale, but the point is not
+        return this.ctx.isPointInPath(path, p.x * this.devicePixelRatio, p.y * this.devicePixelRatio);
+    }
+
     setGlobalAlpha(alpha: number, scopedFunc: () => void) {
         this.ctx.save();
         this.ctx.globalAlpha = alpha;
@@ -312,6 +320,7 @@ export class MainCanvas extends Canvas {
     pointerUpHandler?: PointerEventHandler;
     pointerDownHandler?: PointerEventHandler;
     wheelHandler?: WheelEventHandler;
+    dropHandler?: DropEventHandler;
 
     keyDownHandler?: KeyEventHandler;
     keyUpHandler?: KeyEventHandler;
@@ -329,6 +338,14 @@ export class MainCanvas extends Canvas {
         this.canvas.addEventListener('pointerdown', ev => this.pointerDownHandler?.(ev, this.#eventToCanvas(ev)));
         this.canvas.addEventListener('wheel', ev => this.wheelHandler?.(ev, this.#eventToCanvas(ev)), { passive: true });
 
+        // drag and drop, the browser only allows a drop if dragover is cancelled
+        this.canvas.addEventListener('dragover', ev => { if (this.dropHandler) ev.preventDefault(); });
+        this.canvas.addEventListener('drop', ev => {
+            if (!this.dropHandler) return;
+            ev.preventDefault();
+            this.dropHandler(ev, this.#eventToCanvas(ev));
+        });
+
         // key events
         window.addEventListener('keyup', ev => this.keyUpHandler?.(ev));
         window.addEventListener('keydown', ev => this.keyDownHandler?.(ev));
@@ -0,0 +1,45 @@
+const MAX_FRAME_TIME = 250; // ms, frames longer than this (e.g. a backgrounded tab) are clamped
+
+// runs update() on a fixed tick, independent of the display's frame rate
+export default class GameLoop {
+    tickRate: number;   // updates per (scaled) second
+    timeScale = 1;
+    paused = false;
+
+    #accumulator = 0;   // ms of scaled time not yet simulated
+    #lastTimestamp?: DOMHighResTimeStamp;
+    #pendingSteps = 0;
+
+    constructor(tickRate = 60) {
+        this.tickRate = tickRate;
+    }
+
+    public get tickLength(): number { return 1_000 / this.tickRate; }
+
+    // advance a paused loop by a single tick
+    step() {
+        if (this.paused)
+            this.#pendingSteps++;
+    }
+
+    // runs as many ticks as are due and returns how far (0..1) the display is
+    // between the last two ticks, for interpolated rendering
+    advance(timestamp: DOMHighResTimeStamp, update: (dt: number) => void): number {
+        const frameTime = this.#lastTimestamp === undefined ? 0 : Math.min(timestamp - this.#lastTimestamp, MAX_FRAME_TIME);
+        this.#lastTimestamp = timestamp;
+
+        const dt = this.tickLength / 1_000;
+        if (this.paused) {
+            for (; this.#pendingSteps > 0; this.#pendingSteps--)
+                update(dt);
+        } else {
+            this.#accumulator += frameTime * this.timeScale;
+            while (this.#accumulator >= this.tickLength) {
+                update(dt);
+                this.#accumulator -= this.tickLength;
+            }
+        }
+
+        return this.#accumulator / this.tickLength;
+    }
+}
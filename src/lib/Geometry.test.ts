@@ -0,0 +1,298 @@
+import { describe, expect, it, vi } from "vitest";
+import { circleContains, isSimplePolygon, lerp, LineSegment, lineCircleIntersections, normaliseAngle, pointInPolygon, rectsOverlap, snapCentre, snapTopLeft, unitVector, vecLen } from "./Geometry";
+import { Box, Circle, Eye, outlineCrossings, Polygon, Sweep, sweepAngle } from "./Level";
+
+const expectPoint = (actual: { x: number, y: number; } | undefined, expected: { x: number, y: number; }) => {
+    expect(actual).toBeDefined();
+    expect(actual!.x).toBeCloseTo(expected.x);
+    expect(actual!.y).toBeCloseTo(expected.y);
+};
+
+describe("snapping", () => {
+    it("snaps down to the grid cell's top-left", () => {
+        expect(snapTopLeft({ x: 15, y: 19.9 })).toEqual({ x: 10, y: 10 });
+        expect(snapTopLeft({ x: -3, y: 0 })).toEqual({ x: -10, y: 0 });
+        expect(snapTopLeft({ x: 7, y: 13 }, 5)).toEqual({ x: 5, y: 10 });
+    });
+
+    it("snaps to the nearest grid intersection", () => {
+        expect(snapCentre({ x: 14, y: 15 })).toEqual({ x: 10, y: 20 });
+        expect(snapCentre({ x: -16, y: 4 })).toEqual({ x: -20, y: 0 });
+    });
+});
+
+describe("vectors", () => {
+    it("measures length", () => {
+        expect(vecLen({ x: 1, y: 1 }, { x: 4, y: 5 })).toBe(5);
+        expect(vecLen({ x: 2, y: 2 }, { x: 2, y: 2 })).toBe(0);
+    });
+
+    it("has no unit vector between identical points", () => {
+        expect(unitVector({ x: 3, y: 3 }, { x: 3, y: 3 })).toBeUndefined();
+        expectPoint(unitVector({ x: 0, y: 0 }, { x: 3, y: -4 }), { x: 0.6, y: -0.8 });
+    });
+
+    it("interpolates between points", () => {
+        expect(lerp({ x: 0, y: 10 }, { x: 10, y: 20 }, 0.25)).toEqual({ x: 2.5, y: 12.5 });
+    });
+
+    it("wraps angles into -π..π", () => {
+        expect(normaliseAngle(0)).toBe(0);
+        expect(normaliseAngle(3 * Math.PI / 2)).toBeCloseTo(-Math.PI / 2);
+        expect(normaliseAngle(-5 * Math.PI / 2)).toBeCloseTo(-Math.PI / 2);
+        expect(normaliseAngle(4 * Math.PI + 1)).toBeCloseTo(1);
+    });
+});
+
+describe("circleContains", () => {
+    it("excludes the circumference", () => {
+        expect(circleContains({ x: 0, y: 0 }, 5, { x: 3, y: 3 })).toBe(true);
+        expect(circleContains({ x: 0, y: 0 }, 5, { x: 3, y: 4 })).toBe(false);
+    });
+});
+
+describe("rectsOverlap", () => {
+    it("overlaps rects that touch or intersect", () => {
+        const a = { x: 0, y: 0, w: 10, h: 10 };
+        expect(rectsOverlap(a, { x: 5, y: 5, w: 10, h: 10 })).toBe(true);
+        expect(rectsOverlap(a, { x: 10, y: 0, w: 5, h: 5 })).toBe(true);
+        expect(rectsOverlap(a, { x: 2, y: 2, w: 1, h: 1 })).toBe(true);
+        expect(rectsOverlap(a, { x: 11, y: 0, w: 5, h: 5 })).toBe(false);
+        expect(rectsOverlap(a, { x: 0, y: -6, w: 5, h: 5 })).toBe(false);
+    });
+});
+
+describe("lineCircleIntersections", () => {
+    it("returns both crossings in order", () => {
+        const ts = lineCircleIntersections({ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 0 }, 2);
+        expect(ts).toHaveLength(2);
+        expect(ts[0]).toBeCloseTo(0.3);
+        expect(ts[1]).toBeCloseTo(0.7);
+    });
+
+    it("extends past the ends of the segment", () => {
+        const ts = lineCircleIntersections({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 5, y: 0 }, 2);
+        expect(ts[0]).toBeCloseTo(3);
+        expect(ts[1]).toBeCloseTo(7);
+    });
+
+    it("is empty for misses and zero-length lines", () => {
+        expect(lineCircleIntersections({ x: 0, y: 5 }, { x: 10, y: 5 }, { x: 5, y: 0 }, 2)).toEqual([]);
+        expect(lineCircleIntersections({ x: 5, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 0 }, 2)).toEqual([]);
+    });
+});
+
+describe("LineSegment", () => {
+    it("intersects crossing segments", () => {
+        const a = new LineSegment({ x: 0, y: 0 }, { x: 10, y: 10 });
+        const b = new LineSegment({ x: 0, y: 10 }, { x: 10, y: 0 });
+        expectPoint(a.intersection(b), { x: 5, y: 5 });
+    });
+
+    it("intersects where one segment ends on the other", () => {
+        const a = new LineSegment({ x: 0, y: 0 }, { x: 10, y: 0 });
+        const b = new LineSegment({ x: 4, y: 0 }, { x: 4, y: 10 });
+        expectPoint(a.intersection(b), { x: 4, y: 0 });
+    });
+
+    it("does not intersect parallel, collinear, distant or zero-length segments", () => {
+        const a = new LineSegment({ x: 0, y: 0 }, { x: 10, y: 0 });
+        expect(a.intersection(new LineSegment({ x: 0, y: 1 }, { x: 10, y: 1 }))).toBeUndefined();
+        expect(a.intersection(new LineSegment({ x: 5, y: 0 }, { x: 15, y: 0 }))).toBeUndefined();
+        expect(a.intersection(new LineSegment({ x: 11, y: -1 }, { x: 11, y: 1 }))).toBeUndefined();
+        expect(a.intersection(new LineSegment({ x: 5, y: 0 }, { x: 5, y: 0 }))).toBeUndefined();
+    });
+
+    it("measures distance to a point", () => {
+        const seg = new LineSegment({ x: 0, y: 0 }, { x: 10, y: 0 });
+        expect(seg.distanceTo({ x: 5, y: 3 })).toBeCloseTo(3);
+        expect(seg.distanceTo({ x: 13, y: 4 })).toBeCloseTo(5);
+        expect(new LineSegment({ x: 1, y: 1 }, { x: 1, y: 1 }).distanceTo({ x: 4, y: 5 })).toBeCloseTo(5);
+    });
+
+    it("intersects rects it passes through or ends inside", () => {
+        const rect = { x: 10, y: 10, w: 10, h: 10 };
+        expect(new LineSegment({ x: 0, y: 0 }, { x: 30, y: 30 }).intersectsRect(rect)).toBe(true);
+        expect(new LineSegment({ x: 0, y: 15 }, { x: 12, y: 15 }).intersectsRect(rect)).toBe(true);
+        expect(new LineSegment({ x: 15, y: 15 }, { x: 16, y: 16 }).intersectsRect(rect)).toBe(true);
+        expect(new LineSegment({ x: 0, y: 0 }, { x: 30, y: 0 }).intersectsRect(rect)).toBe(false);
+        expect(new LineSegment({ x: 0, y: 15 }, { x: 15, y: 0 }).intersectsRect(rect)).toBe(false);
+        expect(new LineSegment({ x: 0, y: 15 }, { x: 5, y: 15 }).intersectsRect(rect)).toBe(false);
+    });
+
+    it("has a normalised bounding rect", () => {
+        expect(new LineSegment({ x: 10, y: 2 }, { x: 4, y: 8 }).boundingRect()).toEqual({ x: 4, y: 2, w: 6, h: 6 });
+    });
+});
+
+describe("pointInPolygon", () => {
+    const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    const concave = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 5, y: 5 }, { x: 0, y: 10 }];
+
+    it("contains interior points only", () => {
+        expect(pointInPolygon(square, { x: 5, y: 5 })).toBe(true);
+        expect(pointInPolygon(square, { x: 15, y: 5 })).toBe(false);
+        expect(pointInPolygon(concave, { x: 5, y: 2 })).toBe(true);
+        expect(pointInPolygon(concave, { x: 5, y: 8 })).toBe(false);
+    });
+
+    it("contains nothing when degenerate", () => {
+        expect(pointInPolygon([], { x: 0, y: 0 })).toBe(false);
+        expect(pointInPolygon([{ x: 5, y: 5 }], { x: 5, y: 5 })).toBe(false);
+        expect(pointInPolygon([{ x: 0, y: 0 }, { x: 10, y: 10 }], { x: 5, y: 5 })).toBe(false);
+        expect(pointInPolygon([{ x: 0, y: 0 }, { x: 5, y: 5 }, { x: 10, y: 10 }], { x: 5, y: 5 })).toBe(false);
+        expect(pointInPolygon([{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }], { x: 0, y: 0 })).toBe(false);
+    });
+
+    it("ignores repeated corners", () => {
+        const repeated = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+        expect(pointInPolygon(repeated, { x: 5, y: 5 })).toBe(true);
+    });
+});
+
+describe("isSimplePolygon", () => {
+    it("accepts convex and concave outlines", () => {
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }])).toBe(true);
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 5, y: 5 }, { x: 0, y: 10 }])).toBe(true);
+    });
+
+    it("refuses too few or repeated corners", () => {
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }])).toBe(false);
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }])).toBe(false);
+    });
+
+    it("refuses edges that cross, touch or fold back", () => {
+        // bow tie
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }])).toBe(false);
+        // a corner resting on the opposite edge
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 5, y: 0 }, { x: 0, y: 10 }])).toBe(false);
+        // no area
+        expect(isSimplePolygon([{ x: 0, y: 0 }, { x: 5, y: 5 }, { x: 10, y: 10 }])).toBe(false);
+    });
+});
+
+describe("Box.lineIntersections", () => {
+    // deliberately not square and not on the diagonal, so swapped x/y edges would miss
+    const box = new Box({ x: 10, y: 50, w: 20, h: 10 });
+
+    it("hits the nearest edge", () => {
+        expectPoint(box.lineIntersections(new LineSegment({ x: 0, y: 55 }, { x: 100, y: 55 })), { x: 10, y: 55 });
+        expectPoint(box.lineIntersections(new LineSegment({ x: 100, y: 55 }, { x: 0, y: 55 })), { x: 30, y: 55 });
+        expectPoint(box.lineIntersections(new LineSegment({ x: 20, y: 0 }, { x: 20, y: 100 })), { x: 20, y: 50 });
+        expectPoint(box.lineIntersections(new LineSegment({ x: 20, y: 100 }, { x: 20, y: 0 })), { x: 20, y: 60 });
+    });
+
+    it("misses where the transposed box would be", () => {
+        expect(box.lineIntersections(new LineSegment({ x: 0, y: 20 }, { x: 100, y: 20 }))).toBeUndefined();
+        expect(box.lineIntersections(new LineSegment({ x: 55, y: 0 }, { x: 55, y: 100 }))).toBeUndefined();
+    });
+
+    it("ignores lines through a corner", () => {
+        expect(box.lineIntersections(new LineSegment({ x: 0, y: 40 }, { x: 10, y: 50 }))).toBeUndefined();
+    });
+});
+
+describe("Polygon", () => {
+    it("intersects a two-corner polygon like a wall", () => {
+        const wall = new Polygon({ x: 0, y: 0 });
+        wall.corners.push({ x: 0, y: 20 });
+        expectPoint(wall.lineIntersections(new LineSegment({ x: -10, y: 10 }, { x: 10, y: 10 })), { x: 0, y: 10 });
+        expect(wall.contains({ x: 0, y: 10 })).toBe(false);
+    });
+
+    it("intersects nothing with a single corner", () => {
+        const point = new Polygon({ x: 5, y: 5 });
+        expect(point.lineIntersections(new LineSegment({ x: 0, y: 0 }, { x: 10, y: 10 }))).toBeUndefined();
+        expect(point.arcIntersections({ pos: { x: 0, y: 0 }, dist: Math.hypot(5, 5) })).toEqual([]);
+    });
+});
+
+describe("Circle", () => {
+    const circle = new Circle({ x: 50, y: 0 });
+    circle.radius = 10;
+
+    it("hits the near side from outside and the far side from inside", () => {
+        expectPoint(circle.lineIntersections(new LineSegment({ x: 0, y: 0 }, { x: 100, y: 0 })), { x: 40, y: 0 });
+        expectPoint(circle.lineIntersections(new LineSegment({ x: 50, y: 0 }, { x: 100, y: 0 })), { x: 60, y: 0 });
+        expect(circle.lineIntersections(new LineSegment({ x: 0, y: 0 }, { x: 30, y: 0 }))).toBeUndefined();
+        expect(circle.lineIntersections(new LineSegment({ x: 0, y: 20 }, { x: 100, y: 20 }))).toBeUndefined();
+    });
+
+    it("crosses an eye's view distance at two points", () => {
+        const points = circle.arcIntersections({ pos: { x: 0, y: 0 }, dist: 50 });
+        expect(points).toHaveLength(2);
+        for (const p of points) {
+            expect(vecLen({ x: 0, y: 0 }, p)).toBeCloseTo(50);
+            expect(vecLen(circle.origin, p)).toBeCloseTo(10);
+        }
+        expect(circle.arcIntersections({ pos: { x: 0, y: 0 }, dist: 20 })).toEqual([]);
+        expect(circle.arcIntersections({ pos: { x: 50, y: 0 }, dist: 5 })).toEqual([]);
+    });
+});
+
+describe("Eye.castRays", () => {
+    // records the corners of the vision cone, as there's no canvas to draw it on here
+    class RecordingPath {
+        points: { x: number, y: number; }[] = [];
+        moveTo(x: number, y: number) { this.points.push({ x, y }); }
+        lineTo(x: number, y: number) { this.points.push({ x, y }); }
+        arc() { }
+        closePath() { }
+    }
+
+    it("finds where overlapping shapes' outlines cross", () => {
+        const top = new Box({ x: 0, y: 0, w: 100, h: 10 });
+        const side = new Box({ x: 90, y: 0, w: 10, h: 100 });
+        expect(outlineCrossings(top, side)).toContainEqual({ x: 90, y: 10 });
+
+        const pillar = new Circle({ x: 105, y: 50 });
+        pillar.radius = 10;
+        expect(outlineCrossings(side, pillar)).toHaveLength(2);
+        expect(outlineCrossings(pillar, side)).toHaveLength(2);
+    });
+
+    it("doesn't cut into a wall where two walls overlap", () => {
+        // test files run isolated, so the stub doesn't outlive this one
+        vi.stubGlobal('Path2D', RecordingPath);
+        const top = new Box({ x: 0, y: 0, w: 100, h: 10 });
+        const side = new Box({ x: 90, y: 0, w: 10, h: 100 });
+        const eye = new Eye({ x: 0, y: 200 });
+        eye.dist = 300;
+        eye.lookAt({ x: 90, y: 0 });
+        eye.castRays([top, side]);
+
+        const points = (eye.path as unknown as RecordingPath).points;
+        expect(points.some(p => p.x > 0.01 && p.x < 99.99 && p.y > 0.01 && p.y < 9.99)).toBe(false);
+        expect(points.some(p => Math.abs(p.x - 90) < 0.01 && Math.abs(p.y - 10) < 0.01)).toBe(true);
+    });
+});
+
+describe("sweepAngle", () => {
+    const sweep: Sweep = { mode: 'pingpong', from: 0, to: Math.PI / 2, turnSpeed: Math.PI / 4, pause: 1 };
+
+    it("turns out, pauses, turns back and pauses again", () => {
+        expect(sweepAngle(sweep, 0)).toBeCloseTo(0);
+        expect(sweepAngle(sweep, 1)).toBeCloseTo(Math.PI / 4);
+        expect(sweepAngle(sweep, 2.5)).toBeCloseTo(Math.PI / 2);
+        expect(sweepAngle(sweep, 4)).toBeCloseTo(Math.PI / 4);
+        expect(sweepAngle(sweep, 5.5)).toBeCloseTo(0);
+        expect(sweepAngle(sweep, 7)).toBeCloseTo(Math.PI / 4);
+    });
+
+    it("sweeps across the back when to is less than from", () => {
+        // the short way round, through ±π
+        expect(sweepAngle({ ...sweep, from: 3, to: -3 }, 0.2)).toBeCloseTo(normaliseAngle(3 + Math.PI / 20));
+        expect(sweepAngle({ ...sweep, from: 3, to: -3 }, 0.5)).toBeCloseTo(-3);
+    });
+
+    it("keeps turning the same way when rotating", () => {
+        const rotate: Sweep = { ...sweep, mode: 'rotate', pause: 0 };
+        expect(sweepAngle(rotate, 2)).toBeCloseTo(Math.PI / 2);
+        expect(sweepAngle(rotate, 6)).toBeCloseTo(-Math.PI / 2);
+        expect(sweepAngle(rotate, 8)).toBeCloseTo(0);
+    });
+
+    it("holds still when off", () => {
+        expect(sweepAngle({ ...sweep, mode: 'off' }, 1)).toBe(0);
+    });
+});
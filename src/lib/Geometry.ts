@@ -0,0 +1,195 @@
+import { Point, Rect } from "./Canvas";
+
+export const GRID_STEP = 10;
+
+export const snapTopLeft = (p: Point, step = GRID_STEP): Point => { return { x: Math.floor(p.x / step) * step, y: Math.floor(p.y / step) * step }; };
+export const snapCentre = (p: Point, step = GRID_STEP): Point => { return { x: Math.round(p.x / step) * step, y: Math.round(p.y / step) * step }; };
+export const circleContains = (centre: Point, radius: number, p: Point): boolean => (p.x - centre.x) ** 2 + (p.y - centre.y) ** 2 < radius ** 2;
+export const unitVector = (o: Point, p: Point): Point | undefined => {
+    const diff = { x: p.x - o.x, y: p.y - o.y };
+    const len = Math.hypot(diff.x, diff.y);
+    if (len === 0) return undefined;
+    return { x: diff.x / len, y: diff.y / len };
+};
+export const vecLen = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
+export const lerp = (a: Point, b: Point, t: number): Point => { return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }; };
+export const grow = (r: Rect, s: number): Rect => { return { x: r.x - s / 2, y: r.y - s / 2, w: r.w + s, h: r.h + s }; };
+export const rectsOverlap = (a: Rect, b: Rect): boolean =>
+    a.x <= b.x + b.w && b.x <= a.x + a.w && a.y <= b.y + b.h && b.y <= a.y + a.h;
+// 0 if p is inside r
+export const distanceToRect = (r: Rect, p: Point): number =>
+    Math.hypot(Math.max(r.x - p.x, 0, p.x - r.x - r.w), Math.max(r.y - p.y, 0, p.y - r.y - r.h));
+export const approxEqual = (a: Point, b: Point, epsilon = 0.0001): boolean =>
+    (a.x > (b.x - epsilon) && a.x < b.x + epsilon)
+    && (a.y > (b.y - epsilon) && a.y < b.y + epsilon);
+// wraps an angle into -π..π
+export const normaliseAngle = (a: number): number => a - 2 * Math.PI * Math.floor((a + Math.PI) / (2 * Math.PI));
+
+// adapted from https://stackoverflow.com/a/1084899
+// fractions along start->end (ascending) where the line crosses the circle
+export function lineCircleIntersections(start: Point, end: Point, centre: Point, radius: number): number[] {
+    const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+    const d = { x: end.x - start.x, y: end.y - start.y };
+    const f = { x: start.x - centre.x, y: start.y - centre.y };
+
+    const a = dot(d, d);
+    const b = 2 * dot(f, d);
+    const c = dot(f, f) - radius ** 2;
+
+    const discriminant = b * b - 4 * a * c;
+    if (a === 0 || discriminant < 0)
+        return [];
+
+    // t1 is always the smaller value, because BOTH discriminant and a are nonnegative
+    const det = Math.sqrt(discriminant);
+    return [(-b - det) / (2 * a), (-b + det) / (2 * a)];
+}
+
+// https://wrfranklin.org/Research/Short_Notes/pnpoly.html
+// polygons with fewer than 3 corners (or no area) contain nothing
+export function pointInPolygon(corners: Point[], p: Point): boolean {
+    let inside = false;
+    for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+        const a = corners[i];
+        const b = corners[j];
+        const intersects =
+            ((a.y > p.y) != (b.y > p.y))
+            && (p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x);
+        if (intersects) inside = !inside;
+    }
+    return inside;
+}
+
+// which side of a->b p is on: 1 (left), -1 (right) or 0 (on the line)
+const orientation = (a: Point, b: Point, p: Point): number => Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+// for p already known to be on the line through a and b
+const withinSegment = (a: Point, b: Point, p: Point): boolean =>
+    p.x >= Math.min(a.x, b.x) && p.x <= Math.max(a.x, b.x) && p.y >= Math.min(a.y, b.y) && p.y <= Math.max(a.y, b.y);
+
+// true if the segments share any point, counting end points and collinear overlaps
+function segmentsTouch(a1: Point, a2: Point, b1: Point, b2: Point): boolean {
+    const o1 = orientation(a1, a2, b1);
+    const o2 = orientation(a1, a2, b2);
+    const o3 = orientation(b1, b2, a1);
+    const o4 = orientation(b1, b2, a2);
+    if (o1 !== o2 && o3 !== o4)
+        return true;
+
+    return (o1 === 0 && withinSegment(a1, a2, b1))
+        || (o2 === 0 && withinSegment(a1, a2, b2))
+        || (o3 === 0 && withinSegment(b1, b2, a1))
+        || (o4 === 0 && withinSegment(b1, b2, a2));
+}
+
+// at least 3 distinct corners, with no edge crossing, touching or doubling back over another
+export function isSimplePolygon(corners: Point[]): boolean {
+    const n = corners.length;
+    if (n < 3)
+        return false;
+
+    const next = (i: number) => corners[(i + 1) % n];
+    for (let i = 0; i < n; i++) {
+        const a = corners[i];
+        const b = next(i);
+        if (a.x === b.x && a.y === b.y)
+            return false;
+
+        // neighbouring edges share a corner, but mustn't fold back along each other
+        const c = next(i + 1);
+        if (orientation(a, b, c) === 0 && (a.x - b.x) * (c.x - b.x) + (a.y - b.y) * (c.y - b.y) > 0)
+            return false;
+
+        for (let j = i + 2; j < n; j++) {
+            if (i === 0 && j === n - 1)
+                continue;
+            if (segmentsTouch(a, b, corners[j], next(j)))
+                return false;
+        }
+    }
+    return true;
+}
+
+export class LineSegment {
+    start: Point;
+    end: Point;
+
+    constructor(start: Point, end: Point) {
+        this.start = Object.assign({}, start);
+        this.end = Object.assign({}, end);
+    }
+
+    // https://gorillasun.de/blog/an-algorithm-for-polygon-intersections#5
+    // http://paulbourke.net/geometry/pointlineplane/
+    intersection(b: LineSegment): Point | undefined {
+        const a = this;
+
+        if ((a.start.x === a.end.x && a.start.y === a.end.y) || (b.start.x === b.end.x && b.start.y === b.end.y))
+            // line has length 0
+            return;
+
+        const denominator = ((b.end.y - b.start.y) * (a.end.x - a.start.x) - (b.end.x - b.start.x) * (a.end.y - a.start.y));
+        if (denominator === 0)
+            // lines are parallel
+            return;
+
+        let ua = ((b.end.x - b.start.x) * (a.start.y - b.start.y) - (b.end.y - b.start.y) * (a.start.x - b.start.x)) / denominator;
+        let ub = ((a.end.x - a.start.x) * (a.start.y - b.start.y) - (a.end.y - a.start.y) * (a.start.x - b.start.x)) / denominator;
+
+        if (ua < 0 || ua > 1 || ub < 0 || ub > 1)
+            // intersection does not occur along the segments
+            return;
+
+        // return a object with the x and y coordinates of the intersection
+        return {
+            x: a.start.x + ua * (a.end.x - a.start.x),
+            y: a.start.y + ua * (a.end.y - a.start.y),
+        };
+    }
+
+    closestPoint(p: Point): Point {
+        const d = { x: this.end.x - this.start.x, y: this.end.y - this.start.y };
+        const lengthSquared = d.x ** 2 + d.y ** 2;
+        if (lengthSquared === 0)
+            return Object.assign({}, this.start);
+
+        const t = Math.max(0, Math.min(1, ((p.x - this.start.x) * d.x + (p.y - this.start.y) * d.y) / lengthSquared));
+        return lerp(this.start, this.end, t);
+    }
+
+    distanceTo(p: Point): number {
+        return vecLen(this.closestPoint(p), p);
+    }
+
+    // Liang-Barsky clipping, true if any part of the segment is inside r (edges included)
+    intersectsRect(r: Rect): boolean {
+        const d = { x: this.end.x - this.start.x, y: this.end.y - this.start.y };
+        let t0 = 0;
+        let t1 = 1;
+        const clip = (p: number, q: number): boolean => {
+            if (p === 0)
+                return q >= 0;
+
+            const t = q / p;
+            if (p < 0) {
+                if (t > t1) return false;
+                t0 = Math.max(t0, t);
+            } else {
+                if (t < t0) return false;
+                t1 = Math.min(t1, t);
+            }
+            return true;
+        };
+
+        return clip(-d.x, this.start.x - r.x)
+            && clip(d.x, r.x + r.w - this.start.x)
+            && clip(-d.y, this.start.y - r.y)
+            && clip(d.y, r.y + r.h - this.start.y);
+    }
+
+    boundingRect(): Rect {
+        const x = [this.start.x, this.end.x].sort((a, b) => a - b);
+        const y = [this.start.y, this.end.y].sort((a, b) => a - b);
+
+        return { x: x[0], y: y[0], w: x[1] - x[0], h: y[1] - y[0] };
+    }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from "vitest";
+import Guard, { DEFAULT_GUARD_TUNING } from "./Guard";
+import { Box, Eye, EYE_RADIUS } from "./Level";
+import NavGrid from "./NavGrid";
+
+// fills the detection meter in a single tick
+const SPOTTED = 60;
+
+// runs the guard for a while at 60 ticks a second
+const run = (guard: Guard, seconds: number, player = { x: 1000, y: 1000 }, sightRate = 0, shapes: Box[] = [], nav?: NavGrid) => {
+    for (let t = 0; t < seconds; t += 1 / 60)
+        guard.update(1 / 60, player, sightRate, shapes, nav);
+};
+
+describe("Guard", () => {
+    it("rests idle or on patrol", () => {
+        const post = new Eye({ x: 0, y: 0 });
+        expect(new Guard(post).state).toBe('idle');
+
+        const walker = new Eye({ x: 0, y: 0 });
+        walker.patrol.push({ pos: { x: 100, y: 0 }, wait: 0 });
+        expect(new Guard(walker).state).toBe('patrol');
+    });
+
+    it("turns to a noise, goes to look, searches and comes back", () => {
+        const eye = new Eye({ x: 0, y: 0 });
+        eye.angle = 1;
+        const guard = new Guard(eye);
+
+        guard.hear({ x: 0, y: 50 });
+        expect(guard.state).toBe('suspicious');
+        expect(eye.angle).toBeCloseTo(Math.PI / 2);
+
+        run(guard, DEFAULT_GUARD_TUNING.reactionTime + 0.1);
+        expect(guard.state).toBe('search');
+        run(guard, 1);
+        expect(eye.pos).toEqual({ x: 0, y: 50 });
+
+        run(guard, DEFAULT_GUARD_TUNING.searchTime);
+        expect(guard.state).toBe('return');
+        run(guard, 1);
+        expect(guard.state).toBe('idle');
+        expect(eye.pos).toEqual({ x: 0, y: 0 });
+        expect(eye.angle).toBe(1);
+    });
+
+    it("chases what it sees, and catches it up close", () => {
+        const guard = new Guard(new Eye({ x: 0, y: 0 }));
+        const player = { x: 100, y: 0 };
+
+        guard.update(1 / 60, player, SPOTTED, []);
+        expect(guard.state).toBe('alert');
+        expect(guard.catches(player)).toBe(false);
+
+        run(guard, 1, player, SPOTTED);
+        expect(guard.catches(player)).toBe(true);
+    });
+
+    it("notices faster up close, in the middle of its view and when the player is easy to see", () => {
+        const eye = new Eye({ x: 0, y: 0 });
+        const { rate, closeRate, peripheralRate } = eye.detection;
+        expect(eye.detectionRate({ x: 20, y: 0 })).toBeCloseTo(rate * closeRate);
+        expect(eye.detectionRate({ x: 20, y: 0 }, 0.5)).toBeCloseTo(rate * closeRate * 0.5);
+        expect(eye.detectionRate({ x: 150, y: 0 })).toBeLessThan(rate);
+        expect(eye.detectionRate({ x: 150, y: 0 })).toBeGreaterThan(eye.detectionRate({ x: 190, y: 0 }));
+
+        const edge = { x: Math.cos(eye.fov / 2 - 0.01) * 20, y: Math.sin(eye.fov / 2 - 0.01) * 20 };
+        expect(eye.detectionRate(edge)).toBeCloseTo(rate * closeRate * peripheralRate);
+        expect(eye.detectionRate({ x: -20, y: 0 })).toBe(0);
+        expect(eye.detectionRate({ x: eye.dist + 1, y: 0 })).toBe(0);
+    });
+
+    it("notices the player gradually, and forgets a glimpse", () => {
+        const eye = new Eye({ x: 0, y: 0 });
+        const guard = new Guard(eye);
+        const player = { x: 0, y: 100 };
+
+        run(guard, 0.1, player, 1);
+        expect(guard.meter).toBeCloseTo(0.1, 1);
+        expect(guard.state).toBe('idle');
+
+        run(guard, eye.detection.suspicious, player, 1);
+        expect(guard.state).toBe('suspicious');
+        expect(guard.lastKnown).toEqual(player);
+
+        run(guard, 1);
+        expect(guard.meter).toBeLessThan(eye.detection.suspicious);
+        run(guard, 1, player, 1);
+        expect(guard.state).toBe('alert');
+        expect(guard.meter).toBe(1);
+    });
+
+    it("searches where the player was last seen once it loses them", () => {
+        const guard = new Guard(new Eye({ x: 0, y: 0 }));
+        guard.update(1 / 60, { x: 50, y: 0 }, SPOTTED, []);
+        run(guard, 1);
+        expect(guard.state).toBe('search');
+        expect(guard.eye.pos).toEqual({ x: 50, y: 0 });
+    });
+
+    it("searches from as close as it gets when a wall is in the way and it has no nav grid", () => {
+        const guard = new Guard(new Eye({ x: 0, y: 0 }));
+        guard.hear({ x: 100, y: 0 });
+        const wall = new Box({ x: 40, y: -50, w: 20, h: 100 });
+        run(guard, DEFAULT_GUARD_TUNING.reactionTime + 2, undefined, 0, [wall]);
+        expect(guard.state).toBe('search');
+        expect(guard.eye.pos.x).toBeLessThan(40);
+    });
+
+    it("walks around walls on the nav grid", () => {
+        const guard = new Guard(new Eye({ x: 0, y: 0 }));
+        const wall = new Box({ x: 40, y: -50, w: 20, h: 100 });
+        const nav = new NavGrid(EYE_RADIUS);
+        nav.update(wall);
+
+        guard.hear({ x: 100, y: 0 });
+        run(guard, DEFAULT_GUARD_TUNING.reactionTime + 5, undefined, 0, [wall], nav);
+        expect(guard.eye.pos).toEqual({ x: 100, y: 0 });
+
+        run(guard, DEFAULT_GUARD_TUNING.searchTime + 5, undefined, 0, [wall], nav);
+        expect(guard.state).toBe('idle');
+        expect(guard.eye.pos).toEqual({ x: 0, y: 0 });
+    });
+
+    it("doesn't look for a path to a moving target every tick", () => {
+        const walls = [
+            new Box({ x: -50, y: -50, w: 100, h: 10 }), new Box({ x: -50, y: 40, w: 100, h: 10 }),
+            new Box({ x: -50, y: -50, w: 10, h: 100 }), new Box({ x: 40, y: -50, w: 10, h: 100 }),
+        ];
+        const nav = new NavGrid(EYE_RADIUS);
+        walls.forEach(wall => nav.update(wall));
+        const findPath = vi.spyOn(nav, 'findPath');
+
+        // seen darting about through a window, but walled in
+        const guard = new Guard(new Eye({ x: 100, y: 0 }));
+        for (let tick = 0; tick < 60; tick++)
+            guard.update(1 / 60, { x: tick % 2 === 0 ? -20 : 20, y: 0 }, SPOTTED, walls, nav);
+        expect(findPath).toHaveBeenCalledTimes(1);
+
+        // out in the open, the path follows the player around every so often
+        findPath.mockClear();
+        const chaser = new Guard(new Eye({ x: 200, y: 0 }));
+        for (let t = 0; t < 1; t += 1 / 60)
+            chaser.update(1 / 60, { x: 200, y: 100 + t * 100 }, SPOTTED, walls, nav);
+        expect(findPath.mock.calls.length).toBeGreaterThan(1);
+        expect(findPath.mock.calls.length).toBeLessThanOrEqual(3);
+    });
+
+    it("waits to get back to a post it's been shut off from", () => {
+        const guard = new Guard(new Eye({ x: 0, y: 0 }));
+        const nav = new NavGrid(EYE_RADIUS);
+        guard.hear({ x: 100, y: 0 });
+        run(guard, DEFAULT_GUARD_TUNING.reactionTime + DEFAULT_GUARD_TUNING.searchTime + 2, undefined, 0, [], nav);
+        expect(guard.state).toBe('return');
+
+        // walls all the way around the post
+        const ring = [
+            new Box({ x: -50, y: -50, w: 100, h: 10 }), new Box({ x: -50, y: 40, w: 100, h: 10 }),
+            new Box({ x: -50, y: -50, w: 10, h: 100 }), new Box({ x: 40, y: -50, w: 10, h: 100 }),
+        ];
+        ring.forEach(shape => nav.update(shape));
+        run(guard, 5, undefined, 0, ring, nav);
+        expect(guard.state).toBe('return');
+        expect(guard.eye.pos.x).toBeGreaterThan(50);
+
+        ring.forEach(shape => nav.remove(shape));
+        run(guard, 5, undefined, 0, [], nav);
+        expect(guard.state).toBe('idle');
+        expect(guard.eye.pos).toEqual({ x: 0, y: 0 });
+    });
+});
@@ -0,0 +1,238 @@
+import Canvas, { Point } from "./Canvas";
+import { normaliseAngle, unitVector, vecLen } from "./Geometry";
+import { Eye, EYE_RADIUS, GuardTuning, Shape } from "./Level";
+import NavGrid from "./NavGrid";
+
+export type GuardState = 'idle' | 'patrol' | 'suspicious' | 'alert' | 'search' | 'return';
+
+// how a step towards somewhere went. Blocked means there's no way on from here, for now at least
+type Walk = 'walking' | 'arrived' | 'blocked';
+
+export const DEFAULT_GUARD_TUNING: GuardTuning = {
+    reactionTime: 1.5, // seconds a suspicious guard stares at a disturbance before going to look
+    searchTime: 4,     // seconds spent looking around where the player was last seen or heard
+    chaseSpeed: 110,   // px/s while alert
+    catchDistance: 20, // px, how close an alert guard has to get to catch the player
+};
+
+const SEARCH_TURN_SPEED = Math.PI / 2; // rad/s while looking around
+const METER_WIDTH = 18; // px
+// seconds before a guard looks for a new path to a target that's moved, longer if it found no way there last time
+const REPLAN_INTERVAL = 0.5;
+const UNREACHABLE_REPLAN_INTERVAL = 2;
+
+// drives an eye in the game: it keeps to its post until it hears or sees something,
+// then goes to look, searches, and makes its way back
+export default class Guard {
+    eye: Eye;
+    tuning: GuardTuning;
+    state: GuardState;
+    lastKnown?: Point; // where the player was last seen or heard
+    // where the guard left its post, to go back to once it gives up
+    home?: { pos: Point, angle: number; };
+    seesPlayer = false;
+    meter = 0; // how close the guard is to spotting the player, from 0 to 1
+
+    #timer = 0; // seconds left staring or searching
+    #lookingAround = false; // searching, and has reached lastKnown
+    #route: Point[] = []; // the points still to walk through on the way to the target
+    #routeTo?: Point; // where the target was when the route was found
+    #routeRevision = -1; // of the nav grid the route was found on
+    #replanIn = 0; // seconds until the route can be found again for a moved target
+
+    constructor(eye: Eye, tuning = DEFAULT_GUARD_TUNING) {
+        this.eye = eye;
+        this.tuning = tuning;
+        this.state = this.#restingState();
+    }
+
+    #restingState(): GuardState {
+        return this.eye.patrol.length > 0 ? 'patrol' : 'idle';
+    }
+
+    #leavePost() {
+        if (this.state === 'idle' || this.state === 'patrol')
+            this.home = { pos: Object.assign({}, this.eye.pos), angle: this.eye.angle };
+    }
+
+    // finds a way to target around the walls, if there's a nav grid to find it on, or else heads straight there.
+    // A search can cover the whole grid when there's no way through, so a moving target (like a player being chased)
+    // is only searched for again every so often, and the route's end just follows it in between. A change to the walls
+    // is always worth another look
+    #plan(target: Point, dt: number, nav?: NavGrid) {
+        if (nav === undefined) {
+            this.#route = [Object.assign({}, target)];
+            return;
+        }
+
+        this.#replanIn -= dt;
+        const moved = this.#routeTo !== undefined && vecLen(this.#routeTo, target) > nav.step && this.#replanIn <= 0;
+        if (this.#routeTo === undefined || moved || this.#routeRevision !== nav.revision) {
+            const path = nav.findPath(this.eye.pos, target);
+            // a target too close to a wall for the grid still gets a straight try
+            this.#route = path?.slice(1) ?? [Object.assign({}, target)];
+            this.#routeRevision = nav.revision;
+            this.#replanIn = path ? REPLAN_INTERVAL : UNREACHABLE_REPLAN_INTERVAL;
+            this.#routeTo = Object.assign({}, target);
+        }
+        if (this.#route.length > 0)
+            this.#route[this.#route.length - 1] = Object.assign({}, target);
+        else
+            this.#route.push(Object.assign({}, target));
+    }
+
+    #walkTo(target: Point, speed: number, dt: number, shapes: Shape[], nav?: NavGrid): Walk {
+        this.#plan(target, dt, nav);
+
+        let left = speed * dt;
+        while (this.#route.length > 0) {
+            const next = this.#route[0];
+            const dir = unitVector(this.eye.pos, next);
+            if (dir === undefined) {
+                this.#route.shift();
+                continue;
+            }
+
+            this.eye.lookAt(next);
+            const dist = vecLen(this.eye.pos, next);
+            const step = Math.min(left, dist);
+            const p = step === dist ? Object.assign({}, next) : { x: this.eye.pos.x + dir.x * step, y: this.eye.pos.y + dir.y * step };
+            if (shapes.some(shape => shape.contains(p)))
+                return 'blocked';
+
+            this.eye.pos = p;
+            left -= step;
+            if (step < dist)
+                return 'walking';
+            this.#route.shift();
+        }
+
+        this.#routeTo = undefined;
+        return 'arrived';
+    }
+
+    #search() {
+        this.state = 'search';
+        this.#lookingAround = false;
+    }
+
+    // a noise at p (or a glimpse of the player there) makes the guard suspicious, or tells a chasing guard where to go
+    hear(p: Point) {
+        if (this.state !== 'alert') {
+            this.#leavePost();
+            this.state = 'suspicious';
+            this.#timer = this.tuning.reactionTime;
+            this.eye.lookAt(p);
+        }
+        this.lastKnown = Object.assign({}, p);
+    }
+
+    // sightRate is how fast the eye's detection meter fills (from Eye.detectionRate), or 0 if the player is out of sight.
+    // Without a nav grid the guard walks straight at wherever it's going
+    update(dt: number, player: Point, sightRate: number, shapes: Shape[], nav?: NavGrid) {
+        const detection = this.eye.detection;
+        if (sightRate > 0)
+            // once spotted, the player stays spotted for as long as they're in sight
+            this.meter = this.state === 'alert' ? 1 : Math.min(this.meter + sightRate * dt, 1);
+        else
+            this.meter = Math.max(this.meter - detection.decay * dt, 0);
+
+        const seesPlayer = sightRate > 0 && this.meter >= 1;
+        this.seesPlayer = seesPlayer;
+        if (seesPlayer) {
+            this.#leavePost();
+            this.state = 'alert';
+            this.lastKnown = Object.assign({}, player);
+        } else if (sightRate > 0 && this.meter >= detection.suspicious && this.state !== 'alert') {
+            this.hear(player);
+        }
+
+        switch (this.state) {
+            case 'idle':
+            case 'patrol':
+                this.eye.update(dt);
+                break;
+
+            case 'suspicious':
+                this.#timer -= dt;
+                if (this.#timer <= 0)
+                    this.#search();
+                break;
+
+            case 'alert':
+                // keeps chasing while the player is in sight, otherwise searches from where they were last seen,
+                // or as close as it can get
+                if (this.#walkTo(this.lastKnown!, this.tuning.chaseSpeed, dt, shapes, nav) !== 'walking' && !seesPlayer) {
+                    this.#search();
+                    this.#lookingAround = true;
+                    this.#timer = this.tuning.searchTime;
+                }
+                break;
+
+            case 'search':
+                if (!this.#lookingAround) {
+                    // somewhere it can't get to is searched from as near as it gets
+                    if (this.#walkTo(this.lastKnown!, this.eye.speed, dt, shapes, nav) !== 'walking') {
+                        this.#lookingAround = true;
+                        this.#timer = this.tuning.searchTime;
+                    }
+                    break;
+                }
+
+                this.eye.angle = normaliseAngle(this.eye.angle + SEARCH_TURN_SPEED * dt);
+                this.#timer -= dt;
+                if (this.#timer <= 0)
+                    this.state = 'return';
+                break;
+
+            case 'return':
+                // a post it can't get back to is waited for, as a door may open the way again
+                if (!this.home || this.#walkTo(this.home.pos, this.eye.speed, dt, shapes, nav) === 'arrived') {
+                    if (this.home)
+                        this.eye.angle = this.home.angle;
+                    this.home = undefined;
+                    this.lastKnown = undefined;
+                    this.state = this.#restingState();
+                }
+                break;
+        }
+    }
+
+    // an alert guard catches the player once it's close enough, while it can still see them
+    catches(player: Point): boolean {
+        return this.state === 'alert' && this.seesPlayer && vecLen(this.eye.pos, player) <= this.tuning.catchDistance;
+    }
+
+    // the detection meter, ? while suspicious or searching, ! while alert; with debug on, the state and last known position too
+    drawState(canvas: Canvas, debug = false) {
+        if (this.meter > 0) {
+            const bar = { x: this.eye.pos.x - METER_WIDTH / 2, y: this.eye.pos.y - EYE_RADIUS - 7, w: METER_WIDTH, h: 3 };
+            const colour = this.meter >= 1 ? '#d22' : this.meter >= this.eye.detection.suspicious ? '#d80' : '#eb3';
+            canvas.fillRect(bar, 'rgba(0, 0, 0, 0.3)');
+            canvas.fillRect({ ...bar, w: bar.w * this.meter }, colour);
+        }
+
+        const mark = this.state === 'alert' ? '!' : this.state === 'suspicious' || this.state === 'search' ? '?' : undefined;
+        const above = { x: this.eye.pos.x, y: this.eye.pos.y - EYE_RADIUS - 16 };
+        canvas.fontSize = 16;
+        if (mark) {
+            canvas.ctx.fillStyle = this.state === 'alert' ? '#d22' : '#d80';
+            canvas.drawTextRect(mark, { x: above.x, y: above.y, w: 0, h: 0 });
+        }
+
+        if (!debug)
+            return;
+
+        canvas.fontSize = 11;
+        canvas.ctx.fillStyle = '#000';
+        canvas.drawTextRect(this.state, { x: this.eye.pos.x, y: this.eye.pos.y + EYE_RADIUS + 10, w: 0, h: 0 });
+        if (this.lastKnown) {
+            canvas.ctx.strokeStyle = '#d80';
+            canvas.ctx.lineWidth = 1;
+            canvas.ctx.setLineDash([3, 3]);
+            canvas.drawLine(this.eye.pos, this.lastKnown);
+            canvas.ctx.setLineDash([]);
+            canvas.strokeCircle(this.lastKnown, 5);
+        }
+    }
+}
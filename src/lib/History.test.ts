@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import History, { Command } from "./History";
+
+class SetCommand implements Command {
+    state: { value: number; };
+    from: number;
+    to: number;
+    group?: string;
+
+    constructor(state: { value: number; }, to: number, group?: string) {
+        this.state = state;
+        this.from = state.value;
+        this.to = to;
+        this.group = group;
+    }
+
+    apply() { this.state.value = this.to; }
+    revert() { this.state.value = this.from; }
+
+    merge(next: Command): boolean {
+        if (!(next instanceof SetCommand) || this.group === undefined || next.group !== this.group)
+            return false;
+
+        this.to = next.to;
+        return true;
+    }
+}
+
+describe("History", () => {
+    it("undoes and redoes in order", () => {
+        const state = { value: 0 };
+        const history = new History();
+        history.execute(new SetCommand(state, 1));
+        history.execute(new SetCommand(state, 2));
+
+        expect(history.undo()).toBe(true);
+        expect(state.value).toBe(1);
+        expect(history.undo()).toBe(true);
+        expect(state.value).toBe(0);
+        expect(history.undo()).toBe(false);
+
+        expect(history.redo()).toBe(true);
+        expect(history.redo()).toBe(true);
+        expect(state.value).toBe(2);
+        expect(history.redo()).toBe(false);
+    });
+
+    it("drops the redo stack when a new command is executed", () => {
+        const state = { value: 0 };
+        const history = new History();
+        history.execute(new SetCommand(state, 1));
+        history.undo();
+        history.execute(new SetCommand(state, 5));
+
+        expect(history.canRedo).toBe(false);
+        history.undo();
+        expect(state.value).toBe(0);
+    });
+
+    it("merges consecutive commands into one step", () => {
+        const state = { value: 0 };
+        const history = new History();
+        history.execute(new SetCommand(state, 1, 'drag'));
+        history.execute(new SetCommand(state, 2, 'drag'));
+        history.execute(new SetCommand(state, 3, 'drag'));
+        history.execute(new SetCommand(state, 4, 'other drag'));
+
+        history.undo();
+        expect(state.value).toBe(3);
+        history.undo();
+        expect(state.value).toBe(0);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it("forgets the oldest steps past its limit", () => {
+        const state = { value: 0 };
+        const history = new History(2);
+        for (let i = 1; i <= 4; i++)
+            history.execute(new SetCommand(state, i));
+
+        while (history.undo());
+        expect(state.value).toBe(2);
+    });
+});
@@ -0,0 +1,77 @@
+export interface Command {
+    apply(): void;
+    revert(): void;
+
+    // absorb a command that immediately follows this one, returning true if it was merged
+    merge?(next: Command): boolean;
+}
+
+// several commands applied (and undone) as a single step
+export class CommandGroup implements Command {
+    commands: Command[];
+
+    constructor(commands: Command[]) {
+        this.commands = commands;
+    }
+
+    apply() {
+        for (const command of this.commands)
+            command.apply();
+    }
+
+    revert() {
+        for (const command of [...this.commands].reverse())
+            command.revert();
+    }
+}
+
+export default class History {
+    limit: number;
+
+    #undoStack: Command[] = [];
+    #redoStack: Command[] = [];
+
+    public get canUndo(): boolean { return this.#undoStack.length > 0; }
+    public get canRedo(): boolean { return this.#redoStack.length > 0; }
+
+    constructor(limit = 200) {
+        this.limit = limit;
+    }
+
+    execute(command: Command) {
+        command.apply();
+
+        this.#redoStack = [];
+        const last = this.#undoStack[this.#undoStack.length - 1];
+        if (!last?.merge?.(command)) {
+            this.#undoStack.push(command);
+            if (this.#undoStack.length > this.limit)
+                this.#undoStack.shift();
+        }
+    }
+
+    undo(): boolean {
+        const command = this.#undoStack.pop();
+        if (!command)
+            return false;
+
+        command.revert();
+        this.#redoStack.push(command);
+        return true;
+    }
+
+    redo(): boolean {
+        const command = this.#redoStack.pop();
+        if (!command)
+            return false;
+
+        command.apply();
+        this.#undoStack.push(command);
+        return true;
+    }
+
+    clear() {
+        this.#undoStack = [];
+        this.#redoStack = [];
+    }
+}
@@ -0,0 +1,145 @@
+// an editable value shown in the inspector
+// angles are stored in radians and shown in degrees
+export interface Property {
+    label: string;
+    kind: 'number' | 'angle' | 'colour' | 'choice';
+    min?: number; // in the same units as the value, so radians for angles
+    max?: number;
+    options?: string[]; // for choices
+    get(): number | string;
+    set(value: number | string): void;
+}
+
+// <input type="color"> only understands #rrggbb
+const toHexColour = (colour: string): string => {
+    if (/^#[0-9a-f]{6}$/i.test(colour))
+        return colour;
+    if (/^#[0-9a-f]{3}$/i.test(colour))
+        return '#' + [...colour.slice(1)].map(c => c + c).join('');
+    return '#000000';
+};
+
+const toDegrees = (radians: number) => Math.round(radians * 180 / Math.PI * 100) / 100;
+
+type Row = {
+    property: Property;
+    input: HTMLInputElement | HTMLSelectElement;
+};
+
+// a DOM panel for editing the properties of a single object
+export default class Inspector {
+    element: HTMLDivElement;
+    // edits in the same session (from focusing an input until it's committed) share an id
+    onEdit?: (property: Property, value: number | string, editId: number) => void;
+
+    #title: HTMLDivElement;
+    #rows: Row[] = [];
+    #editId = 0;
+    #target?: unknown;
+
+    public get target(): unknown { return this.#target; }
+
+    constructor(parent: HTMLElement) {
+        this.element = document.createElement('div');
+        this.element.className = 'inspector';
+        this.element.hidden = true;
+        this.#title = document.createElement('div');
+        this.#title.className = 'inspector-title';
+        this.element.appendChild(this.#title);
+        parent.appendChild(this.element);
+    }
+
+    show(target: unknown, title: string, properties: Property[]) {
+        this.clear();
+        this.#target = target;
+        this.#title.textContent = title;
+
+        for (const property of properties) {
+            const label = document.createElement('label');
+            label.textContent = property.label;
+
+            let input: HTMLInputElement | HTMLSelectElement;
+            if (property.kind === 'choice') {
+                input = document.createElement('select');
+                for (const option of property.options ?? [])
+                    input.add(new Option(option, option));
+            } else if (property.kind === 'colour') {
+                input = document.createElement('input');
+                input.type = 'color';
+            } else {
+                input = document.createElement('input');
+                input.type = 'number';
+                input.step = 'any';
+                // the bounds are in the property's own units, so an angle's are shown in degrees like its value
+                const shown = (bound: number) => String(property.kind === 'angle' ? toDegrees(bound) : bound);
+                if (property.min !== undefined) input.min = shown(property.min);
+                if (property.max !== undefined) input.max = shown(property.max);
+            }
+
+            // keep typing out of the scene's (window-level) key handlers
+            input.addEventListener('keydown', ev => ev.stopPropagation());
+            input.addEventListener('focus', () => this.#editId++);
+            input.addEventListener('change', () => this.#editId++);
+            input.addEventListener('input', () => this.#edit(property, input));
+
+            label.appendChild(input);
+            this.element.appendChild(label);
+            this.#rows.push({ property, input });
+        }
+
+        this.refresh();
+        this.element.hidden = false;
+    }
+
+    clear() {
+        for (const row of this.#rows)
+            row.input.parentElement?.remove();
+        this.#rows = [];
+        this.#target = undefined;
+        this.element.hidden = true;
+    }
+
+    remove() {
+        this.clear();
+        this.element.remove();
+    }
+
+    // picks up changes made elsewhere (dragging, undo), leaving the input being edited alone
+    refresh() {
+        for (const { property, input } of this.#rows) {
+            if (input === document.activeElement)
+                continue;
+
+            const value = this.#display(property);
+            if (input.value !== value)
+                input.value = value;
+        }
+    }
+
+    #display(property: Property): string {
+        const value = property.get();
+        if (property.kind === 'choice')
+            return String(value);
+        if (property.kind === 'colour')
+            return toHexColour(String(value));
+        if (property.kind === 'angle')
+            return String(toDegrees(Number(value)));
+        return String(Math.round(Number(value) * 100) / 100);
+    }
+
+    #edit(property: Property, input: HTMLInputElement | HTMLSelectElement) {
+        let value: number | string = input.value;
+        if (input instanceof HTMLInputElement && property.kind !== 'colour') {
+            if (input.value === '' || !Number.isFinite(input.valueAsNumber))
+                return;
+
+            value = property.kind === 'angle' ? input.valueAsNumber * Math.PI / 180 : input.valueAsNumber;
+            value = Math.min(property.max ?? Infinity, Math.max(property.min ?? -Infinity, value));
+        }
+
+        if (this.onEdit)
+            this.onEdit(property, value, this.#editId);
+        else
+            property.set(value);
+    }
+}
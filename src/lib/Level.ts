@@ -0,0 +1,1155 @@
+import Canvas, { contains, Point, Rect } from "./Canvas";
+import { approxEqual, circleContains, distanceToRect, grow, lerp, LineSegment, lineCircleIntersections, normaliseAngle, pointInPolygon, rectsOverlap, unitVector, vecLen } from "./Geometry";
+import SpatialGrid from "./SpatialGrid";
+import { BoxData, CircleData, DetectionData, DoorData, EyeData, GuardTuningData, LEVEL_VERSION, LevelData, LevelFormatError, LightData, SwitchData, PolygonData, ShapeData, SweepData, validateLevel } from "./LevelFormat";
+
+export const EYE_RADIUS = 6;
+
+const ANGLE_EPSILON = 1e-9;
+
+export interface Draggable {
+    origin: Point;
+    contains(p: Point): boolean;
+
+    readonly snap: boolean;
+}
+
+export interface Shape extends Draggable {
+    readonly kind: string;
+    colour: string;
+    border: string;
+
+    draw(canvas: Canvas): void;
+    cornersForEye(eye: Eye): Point[];
+    arcIntersections(arc: { pos: Point, dist: number }): Point[];
+    lineIntersections(seg: LineSegment): Point | undefined;
+    // the straight parts of the outline, none for a circle
+    edges(): LineSegment[];
+    // the part of the outline that p (on the outline) lies on, if the shape has an outline at all
+    outlineAt(p: Point): LineSegment | Circle | undefined;
+    boundingRect(): Rect;
+
+    serialize(): ShapeData;
+}
+
+// open doors don't block anything, everything else always does
+export const blocks = (shape: Shape): boolean => !(shape instanceof Door) || !shape.open;
+
+// what an eye can be blocked by, either every shape or an index to find the nearby ones quickly
+export type Occluders = Shape[] | SpatialGrid<Shape>;
+
+// where the outlines of two shapes cross
+export function outlineCrossings(a: Shape, b: Shape): Point[] {
+    if (b instanceof Circle)
+        return a.arcIntersections({ pos: b.origin, dist: b.radius });
+    if (a instanceof Circle)
+        return b.arcIntersections({ pos: a.origin, dist: a.radius });
+
+    const crossings: Point[] = [];
+    for (const edge of a.edges()) {
+        for (const other of b.edges()) {
+            const crossing = edge.intersection(other);
+            if (crossing)
+                crossings.push(crossing);
+        }
+    }
+    return crossings;
+}
+
+// how far p is from the shape's outline, or 0 if it's inside
+export function distanceToShape(shape: Shape, p: Point): number {
+    if (shape.contains(p))
+        return 0;
+
+    const outline = shape.outlineAt(p);
+    // a polygon with no corners left has no edges, and nothing to be near
+    if (outline === undefined)
+        return Infinity;
+    if (outline instanceof LineSegment)
+        return outline.distanceTo(p);
+    return Math.abs(vecLen(outline.origin, p) - outline.radius);
+}
+
+// the point on the shape's outline nearest p, whether p is inside the shape or not. Undefined if it has no outline
+export function nearestOutlinePoint(shape: Shape, p: Point): Point | undefined {
+    const outline = shape.outlineAt(p);
+    if (outline === undefined)
+        return undefined;
+    if (outline instanceof LineSegment)
+        return outline.closestPoint(p);
+
+    const dir = unitVector(outline.origin, p) ?? { x: 1, y: 0 };
+    return { x: outline.origin.x + dir.x * outline.radius, y: outline.origin.y + dir.y * outline.radius };
+}
+
+export class RevArray<T> extends Array<T> {
+    *revEntries(): IterableIterator<[number, T]> {
+        for (let i = this.length - 1; i >= 0; i--)
+            yield [i, this[i]];
+    }
+}
+
+export type Waypoint = {
+    pos: Point;
+    wait: number;   // seconds to stay at the waypoint
+    look?: number;  // angle to face while waiting, otherwise keep facing the direction of travel
+};
+
+// a stationary eye can scan back and forth (or all the way round), like a security camera
+export type Sweep = SweepData;
+
+// the angle a sweep is facing, time seconds after it starts at `from`. Ping-pong turns from `from` to `to`
+// (in the direction of increasing angle) and back, holding for `pause` at each end; rotate keeps turning
+// the same way, holding at `from` once every full turn.
+export function sweepAngle(sweep: Sweep, time: number): number {
+    const span = sweep.mode === 'rotate' ? 2 * Math.PI : normaliseAngle(sweep.to - sweep.from - Math.PI) + Math.PI;
+    if (sweep.mode === 'off' || sweep.turnSpeed === 0 || span === 0)
+        return sweep.from;
+
+    const travel = span / sweep.turnSpeed;
+    const legs = sweep.mode === 'rotate' ? 1 : 2;
+    const t = time % (legs * (travel + sweep.pause));
+    let turned: number;
+    if (t < travel)
+        turned = t / travel * span;
+    else if (t < travel + sweep.pause)
+        turned = sweep.mode === 'rotate' ? 0 : span;
+    else if (t < 2 * travel + sweep.pause)
+        turned = span - (t - travel - sweep.pause) / travel * span;
+    else
+        turned = 0;
+    return normaliseAngle(sweep.from + turned);
+}
+
+// how quickly an eye notices the player. Its meter fills at `rate` per second with the player in the
+// middle of its view, slowing towards the edge of its range, and goes `closeRate` times faster within
+// `closeDist`. Outside the central `focus` angle (the peripheral part of the view) it's `peripheralRate`
+// times as fast. Out of sight the meter drains at `decay` per second. The guard gets suspicious once the
+// meter passes `suspicious`, and spots the player when it's full
+export type Detection = DetectionData;
+
+// the fraction of the detection rate left at the far edge of an eye's view
+const FAR_DETECTION = 0.25;
+
+export class Eye implements Draggable {
+    readonly snap = false;
+    pos: Point;
+    angle = 0;
+
+    // defaults
+    fov = Math.PI / 2;
+    dist = 200;
+    speed = 60; // px/s along the patrol route
+
+    // the guard walks from its start position to the first waypoint, then loops through the route
+    patrol: Waypoint[] = [];
+    #waypointIdx = 0;
+    #waitRemaining?: number;
+
+    // only used by eyes without a patrol
+    sweep: Sweep = { mode: 'off', from: -Math.PI / 4, to: Math.PI / 4, turnSpeed: Math.PI / 4, pause: 1 };
+    #sweepTime = 0;
+
+    detection: Detection = { rate: 1.25, closeDist: 50, closeRate: 4, focus: Math.PI / 4, peripheralRate: 0.35, decay: 0.5, suspicious: 0.35 };
+
+    // cached between frames, and only recast once the eye has moved or a nearby shape has changed
+    rays?: LineSegment[];
+    #castFor?: { x: number, y: number, angle: number, fov: number, dist: number; };
+    #rayHits?: (Point | undefined)[]; // only needed for debug drawing, so found on demand
+    path?: Path2D;
+
+    constructor(p: Point) {
+        this.pos = Object.assign({}, p);
+    }
+
+    public get origin(): Point { return this.pos; }
+    public set origin(p: Point) { this.pos = p; }
+
+    contains(p: Point): boolean {
+        return (p.x - this.pos.x) ** 2 + (p.y - this.pos.y) ** 2 < EYE_RADIUS ** 2;
+    }
+
+    lookAt(p: Point) {
+        const vec = unitVector(this.pos, p);
+        if (vec === undefined)
+            return;
+
+        this.angle = Math.atan2(vec.y, vec.x);
+    }
+
+    // turns a sweeping eye, also used by the editor to preview sweeps
+    updateSweep(dt: number) {
+        if (this.sweep.mode === 'off' || this.patrol.length > 0)
+            return;
+
+        this.#sweepTime += dt;
+        this.angle = sweepAngle(this.sweep, this.#sweepTime);
+    }
+
+    update(dt: number) {
+        if (this.patrol.length === 0) {
+            this.updateSweep(dt);
+            return;
+        }
+
+        this.#waypointIdx %= this.patrol.length;
+        const waypoint = this.patrol[this.#waypointIdx];
+
+        if (this.#waitRemaining !== undefined) {
+            this.#waitRemaining -= dt;
+            if (this.#waitRemaining <= 0) {
+                this.#waitRemaining = undefined;
+                this.#waypointIdx = (this.#waypointIdx + 1) % this.patrol.length;
+            }
+            return;
+        }
+
+        const remaining = vecLen(this.pos, waypoint.pos);
+        if (remaining <= this.speed * dt) {
+            this.pos = Object.assign({}, waypoint.pos);
+            this.#waitRemaining = waypoint.wait;
+            if (waypoint.look !== undefined)
+                this.angle = waypoint.look;
+        } else {
+            this.lookAt(waypoint.pos);
+            this.pos = lerp(this.pos, waypoint.pos, this.speed * dt / remaining);
+        }
+    }
+
+    drawPatrol(canvas: Canvas, colour = 'rgba(120, 40, 40, 0.6)') {
+        if (this.patrol.length === 0)
+            return;
+
+        canvas.ctx.strokeStyle = colour;
+        canvas.ctx.lineWidth = 2;
+        canvas.ctx.setLineDash([6, 4]);
+        canvas.ctx.beginPath();
+        canvas.ctx.moveTo(this.pos.x, this.pos.y);
+        for (const waypoint of [...this.patrol, this.patrol[0]])
+            canvas.ctx.lineTo(waypoint.pos.x, waypoint.pos.y);
+        canvas.ctx.stroke();
+        canvas.ctx.setLineDash([]);
+
+        canvas.fontSize = 12;
+        for (const waypoint of this.patrol) {
+            canvas.fillCircle(waypoint.pos, 4, colour);
+            if (waypoint.look !== undefined) {
+                canvas.ctx.strokeStyle = colour;
+                canvas.drawLine(waypoint.pos, {
+                    x: waypoint.pos.x + Math.cos(waypoint.look) * 16,
+                    y: waypoint.pos.y + Math.sin(waypoint.look) * 16,
+                });
+            }
+            if (waypoint.wait > 0) {
+                canvas.ctx.fillStyle = colour;
+                canvas.drawText(`${waypoint.wait}s`, { x: waypoint.pos.x + 6, y: waypoint.pos.y + 4 });
+            }
+        }
+    }
+
+    // true if the cached rays don't match where the eye is now looking
+    #stale(): boolean {
+        const cast = this.#castFor;
+        return this.rays === undefined || cast === undefined ||
+            cast.x !== this.pos.x || cast.y !== this.pos.y ||
+            cast.angle !== this.angle || cast.fov !== this.fov || cast.dist !== this.dist;
+    }
+
+    // true if a shape within rect could block part of the view
+    reaches(rect: Rect): boolean {
+        return distanceToRect(rect, this.pos) <= this.dist;
+    }
+
+    // the (occluded) vision cone, recast first if it's out of date
+    visibleArea(shapes: Occluders): Path2D | undefined {
+        if (this.#stale())
+            this.castRays(shapes);
+        return this.path;
+    }
+
+    draw(canvas: Canvas, shapes: Occluders, colour = 'rgba(0, 0, 0, 0.15)', debug = true) {
+        const path = this.visibleArea(shapes);
+        if (path) {
+            canvas.ctx.fillStyle = colour;
+            canvas.ctx.fill(path);
+        }
+
+        if (!debug)
+            return;
+
+        // -- debug --
+        canvas.ctx.strokeStyle = '#0cc';
+        canvas.ctx.lineWidth = 1;
+        this.#rayHits ??= this.rays!.map(ray => this.nearestHit(shapes, ray)?.point);
+        for (const [i, ray] of this.rays!.entries()) {
+            canvas.drawLine(ray.start, ray.end);
+            const intersect = this.#rayHits[i];
+            if (intersect) canvas.fillCircle(intersect, 2, '#f00');
+        }
+        // -----------
+    }
+
+    // true if p is inside the (occluded) vision cone
+    sees(canvas: Canvas, shapes: Occluders, p: Point): boolean {
+        const path = this.visibleArea(shapes);
+        return path !== undefined && canvas.isPointInPath(path, p);
+    }
+
+    // how fast (per second) the meter fills with the player at p, if nothing's in the way. Visibility scales it
+    // for how hard the player is to see, e.g. when sneaking or in the dark
+    detectionRate(p: Point, visibility = 1): number {
+        const d = vecLen(this.pos, p);
+        const off = Math.abs(normaliseAngle(Math.atan2(p.y - this.pos.y, p.x - this.pos.x) - this.angle));
+        if (d > this.dist || off > this.fov / 2)
+            return 0;
+
+        const { rate, closeDist, closeRate, focus, peripheralRate } = this.detection;
+        const range = d <= closeDist ? closeRate : 1 - (1 - FAR_DETECTION) * (d - closeDist) / Math.max(this.dist - closeDist, 1);
+        const angular = off <= focus / 2 ? 1 : peripheralRate;
+        return rate * range * angular * visibility;
+    }
+
+    // shapes that could be within the view distance
+    nearbyShapes(shapes: Occluders): Shape[] {
+        const view = { x: this.pos.x - this.dist, y: this.pos.y - this.dist, w: 2 * this.dist, h: 2 * this.dist };
+        const candidates = shapes instanceof SpatialGrid ? shapes.query(view) : shapes;
+        return candidates.filter(shape => this.reaches(shape.boundingRect()));
+    }
+
+    castRays(occluders: Occluders) {
+        const shapes = this.nearbyShapes(occluders);
+        // the grid can find what a ray hits without testing every nearby shape
+        const hitShapes = occluders instanceof SpatialGrid ? occluders : shapes;
+
+        // every angle at which the visible outline can change: corners, tangents, anywhere an outline
+        // crosses the edge of the eye's view distance, and anywhere two overlapping shapes' outlines cross
+        const offsets = [-this.fov / 2, this.fov / 2];
+        const inRange = (p: Point) => {
+            const length = vecLen(this.pos, p);
+            return length > 0 && length < this.dist;
+        };
+        for (const [i, shape] of shapes.entries()) {
+            const rect = shape.boundingRect();
+            const points = [
+                ...shape.cornersForEye(this).filter(inRange),
+                ...shape.arcIntersections(this),
+                ...shapes.slice(i + 1)
+                    .filter(other => rectsOverlap(rect, other.boundingRect()))
+                    .flatMap(other => outlineCrossings(shape, other).filter(inRange)),
+            ];
+            for (const point of points) {
+                const offset = normaliseAngle(Math.atan2(point.y - this.pos.y, point.x - this.pos.x) - this.angle);
+                if (offset > -this.fov / 2 && offset < this.fov / 2)
+                    offsets.push(offset);
+            }
+        }
+        offsets.sort((a, b) => a - b);
+
+        const path = new Path2D();
+        path.moveTo(this.pos.x, this.pos.y);
+        for (let i = 0; i < offsets.length - 1; i++) {
+            const a1 = this.angle + offsets[i];
+            const a2 = this.angle + offsets[i + 1];
+            if (a2 - a1 < ANGLE_EPSILON)
+                continue;
+
+            // nothing changes between two neighbouring angles, so whatever the
+            // middle ray hits is the visible outline for the whole wedge
+            const hit = this.nearestHit(hitShapes, this.ray((a1 + a2) / 2));
+            const outline = hit?.shape.outlineAt(hit.point);
+            if (outline === undefined) {
+                const start = this.ray(a1).end;
+                path.lineTo(start.x, start.y);
+                path.arc(this.pos.x, this.pos.y, this.dist, a1, a2);
+                continue;
+            }
+
+            const start = this.outlineHit(outline, a1);
+            const end = this.outlineHit(outline, a2);
+            path.lineTo(start.x, start.y);
+            if (outline instanceof LineSegment) {
+                path.lineTo(end.x, end.y);
+            } else {
+                // the near side of a circle is swept anticlockwise (around its centre) as the eye's angle increases
+                path.arc(
+                    outline.origin.x, outline.origin.y,
+                    outline.radius,
+                    Math.atan2(start.y - outline.origin.y, start.x - outline.origin.x),
+                    Math.atan2(end.y - outline.origin.y, end.x - outline.origin.x),
+                    true,
+                );
+            }
+        }
+        path.closePath();
+        this.path = path;
+
+        this.rays = offsets.map(offset => this.ray(this.angle + offset));
+        this.#castFor = { x: this.pos.x, y: this.pos.y, angle: this.angle, fov: this.fov, dist: this.dist };
+        this.#rayHits = undefined;
+    }
+
+    nearestHit(shapes: Occluders, ray: LineSegment): { shape: Shape, point: Point, dist: number; } | undefined {
+        let nearest: { shape: Shape, point: Point, dist: number; } | undefined;
+        const test = (shape: Shape) => {
+            if (!ray.intersectsRect(shape.boundingRect()))
+                return;
+
+            const point = shape.lineIntersections(ray);
+            const dist = point && vecLen(ray.start, point);
+            if (point && dist !== undefined && (!nearest || dist < nearest.dist))
+                nearest = { shape, point, dist };
+        };
+
+        if (!(shapes instanceof SpatialGrid)) {
+            shapes.forEach(test);
+            return nearest;
+        }
+
+        // walk outwards along the ray, until nothing in the cells still to come could be nearer
+        const length = vecLen(ray.start, ray.end);
+        const tested = new Set<Shape>();
+        for (const cell of shapes.traverse(ray)) {
+            for (const shape of cell.items) {
+                if (!tested.has(shape)) {
+                    tested.add(shape);
+                    test(shape);
+                }
+            }
+            if (nearest && nearest.dist <= cell.exit * length)
+                break;
+        }
+        return nearest;
+    }
+
+    // where an unbounded ray at angle meets the (extended) outline
+    outlineHit(outline: LineSegment | Circle, angle: number): Point {
+        const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+        if (outline instanceof LineSegment) {
+            const edge = { x: outline.end.x - outline.start.x, y: outline.end.y - outline.start.y };
+            const denominator = dir.x * edge.y - dir.y * edge.x;
+            if (denominator === 0)
+                // ray runs along the edge
+                return outline.start;
+
+            const t = ((outline.start.x - this.pos.x) * edge.y - (outline.start.y - this.pos.y) * edge.x) / denominator;
+            return { x: this.pos.x + dir.x * t, y: this.pos.y + dir.y * t };
+        }
+
+        // nearest root of |pos + t * dir - origin| = radius, clamped to the tangent point if the ray just misses
+        const f = { x: this.pos.x - outline.origin.x, y: this.pos.y - outline.origin.y };
+        const b = dir.x * f.x + dir.y * f.y;
+        const c = f.x ** 2 + f.y ** 2 - outline.radius ** 2;
+        const t = -b - Math.sqrt(Math.max(b * b - c, 0));
+        return { x: this.pos.x + dir.x * t, y: this.pos.y + dir.y * t };
+    }
+
+    ray(angle: number, dist = this.dist): LineSegment {
+        return new LineSegment(this.pos, { x: this.pos.x + dist * Math.cos(angle), y: this.pos.y + dist * Math.sin(angle) });
+    }
+
+    serialize(): EyeData {
+        return {
+            pos: this.pos,
+            angle: this.angle,
+            fov: this.fov,
+            dist: this.dist,
+            speed: this.speed,
+            patrol: this.patrol,
+            sweep: this.sweep.mode === 'off' ? undefined : Object.assign({}, this.sweep),
+            detection: Object.assign({}, this.detection),
+        };
+    }
+
+    static deserialize(raw: EyeData): Eye {
+        const eye = new Eye(raw.pos);
+        eye.angle = raw.angle;
+        eye.fov = raw.fov;
+        eye.dist = raw.dist;
+        eye.speed = raw.speed;
+        eye.patrol = raw.patrol.map(w => {
+            return { pos: Object.assign({}, w.pos), wait: w.wait, look: w.look };
+        });
+        if (raw.sweep) {
+            eye.sweep = Object.assign({}, raw.sweep);
+            eye.updateSweep(0);
+        }
+        if (raw.detection)
+            eye.detection = Object.assign({}, raw.detection);
+
+        return eye;
+    }
+}
+
+export const LIGHT_RADIUS = 5; // px, the bulb drawn for a light in the editor
+
+// lights the area around it that shapes don't shadow, brightest in the middle and fading out at its radius
+export class Light implements Draggable {
+    readonly snap = false;
+    pos: Point;
+    colour = '#ffe0a0';
+    radius = 150;
+    intensity = 1; // from 0 to 1, how bright it is in the middle
+    on = true;
+    id?: string; // for switches to find it by
+
+    // an eye that sees all the way round finds the lit area the same way it finds a vision cone
+    #view: Eye;
+
+    constructor(p: Point) {
+        this.pos = Object.assign({}, p);
+        this.#view = new Eye(p);
+        this.#view.fov = 2 * Math.PI;
+    }
+
+    public get origin(): Point { return this.pos; }
+    public set origin(p: Point) { this.pos = p; }
+
+    contains(p: Point): boolean {
+        return circleContains(this.pos, LIGHT_RADIUS, p);
+    }
+
+    // true if a shape within rect could cast a shadow
+    reaches(rect: Rect): boolean {
+        return distanceToRect(rect, this.pos) <= this.radius;
+    }
+
+    // recasts the lit area next time, after a nearby shape has changed
+    invalidate() {
+        this.#view.rays = undefined;
+    }
+
+    // the part of the light's circle that isn't in shadow
+    litArea(shapes: Occluders): Path2D | undefined {
+        this.#view.pos = this.pos;
+        this.#view.dist = this.radius;
+        return this.#view.visibleArea(shapes);
+    }
+
+    // how much this light lights p, 0 if it's out of range or in shadow
+    levelAt(p: Point, shapes: Occluders): number {
+        const d = vecLen(this.pos, p);
+        if (!this.on || d >= this.radius || (d > 0 && this.#view.nearestHit(shapes, new LineSegment(this.pos, p))))
+            return 0;
+        return this.intensity * (1 - d / this.radius);
+    }
+
+    // adds the light onto a light map: its colour in the middle fading to black at its radius, with shadows cut out
+    drawLight(canvas: Canvas, shapes: Occluders) {
+        const area = this.on && this.litArea(shapes);
+        if (!area)
+            return;
+
+        const ctx = canvas.ctx;
+        const gradient = ctx.createRadialGradient(this.pos.x, this.pos.y, 0, this.pos.x, this.pos.y, this.radius);
+        gradient.addColorStop(0, this.colour);
+        gradient.addColorStop(1, '#000');
+        ctx.save();
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.globalAlpha = this.intensity;
+        ctx.fillStyle = gradient;
+        ctx.fill(area);
+        ctx.restore();
+    }
+
+    serialize(): LightData {
+        return { pos: Object.assign({}, this.pos), colour: this.colour, radius: this.radius, intensity: this.intensity, id: this.id, on: this.on };
+    }
+
+    static deserialize(raw: LightData): Light {
+        const light = new Light(raw.pos);
+        light.colour = raw.colour;
+        light.radius = raw.radius;
+        light.intensity = raw.intensity;
+        light.id = raw.id;
+        light.on = raw.on ?? true;
+        return light;
+    }
+}
+
+export const SWITCH_RADIUS = 6; // px
+
+// flips the doors and lights whose ids it's linked to
+export class Switch implements Draggable {
+    readonly snap = false;
+    pos: Point;
+    links: string[] = [];
+
+    constructor(p: Point) {
+        this.pos = Object.assign({}, p);
+    }
+
+    public get origin(): Point { return this.pos; }
+    public set origin(p: Point) { this.pos = p; }
+
+    contains(p: Point): boolean {
+        return circleContains(this.pos, SWITCH_RADIUS, p);
+    }
+
+    draw(canvas: Canvas) {
+        const rect = { x: this.pos.x - SWITCH_RADIUS, y: this.pos.y - SWITCH_RADIUS, w: SWITCH_RADIUS * 2, h: SWITCH_RADIUS * 2 };
+        canvas.fillRect(rect, '#999');
+        canvas.ctx.strokeStyle = '#333';
+        canvas.ctx.lineWidth = 2;
+        canvas.strokeRect(rect);
+        canvas.drawLine(this.pos, { x: this.pos.x + SWITCH_RADIUS * 0.6, y: this.pos.y - SWITCH_RADIUS * 0.8 });
+    }
+
+    serialize(): SwitchData {
+        return { pos: Object.assign({}, this.pos), links: [...this.links] };
+    }
+
+    static deserialize(raw: SwitchData): Switch {
+        const sw = new Switch(raw.pos);
+        sw.links = [...raw.links];
+        return sw;
+    }
+}
+
+export class Polygon implements Shape {
+    readonly kind = 'polygon';
+    corners: Point[];
+    colour = '#ccf';
+    border = '#337';
+    readonly snap = true;
+
+    constructor(startingPoint: Point) {
+        this.corners = [Object.assign({}, startingPoint)];
+    }
+
+    public get origin(): Point { return this.corners[0]; }
+    public set origin(p: Point) {
+        const diff = { x: p.x - this.origin.x, y: p.y - this.origin.y };
+        for (const corner of this.corners) {
+            corner.x += diff.x;
+            corner.y += diff.y;
+        }
+    }
+
+    cornersForEye(eye: Eye): Point[] {
+        if (this.contains(eye.pos))
+            return [];
+
+        const edges = [...this.lines()]
+            .map(([a, b]) => new LineSegment(a, b));
+
+        const corners: Point[] = [];
+        for (const corner of this.corners) {
+            if (corners.some(a => a.x === corner.x && a.y === corner.y))
+                continue;
+            const lineSeg = new LineSegment(eye.pos, corner);
+            const unobstructed = edges.every(edge => (edge.start.x === corner.x && edge.start.y === corner.y)
+                || (edge.end.x === corner.x && edge.end.y === corner.y)
+                || edge.intersection(lineSeg) === undefined);
+
+            if (unobstructed)
+                corners.push(corner);
+        }
+
+        return corners;
+    }
+
+    arcIntersections(arc: { pos: Point, dist: number }): Point[] {
+        const intersections: Point[] = [];
+        for (const [start, end] of this.lines()) {
+            // either solution may be on or off the edge so need to test both
+            lineCircleIntersections(start, end, arc.pos, arc.dist)
+                .filter(t => t > 0 && t < 1)
+                .map(t => intersections.push(lerp(start, end, t)));
+        }
+
+        return intersections;
+    }
+
+    lineIntersections(line: LineSegment): Point | undefined {
+        const intersections: Point[] = [];
+        for (let [p1, p2] of this.lines()) {
+            const intersection = line.intersection(new LineSegment(p1, p2));
+            if (intersection && !approxEqual(intersection, p1) && !approxEqual(intersection, p2))
+                intersections.push(intersection);
+        }
+        return intersections.sort((a, b) => vecLen(line.start, a) - vecLen(line.start, b))[0];
+    }
+
+    // undefined once every corner has been removed
+    outlineAt(p: Point): LineSegment | undefined {
+        return this.edges().sort((a, b) => a.distanceTo(p) - b.distanceTo(p))[0];
+    }
+
+    boundingRect(): Rect {
+        const topLeft = { x: Infinity, y: Infinity };
+        const bottomRight = { x: -Infinity, y: -Infinity };
+        for (let corner of this.corners) {
+            topLeft.x = Math.min(topLeft.x, corner.x);
+            topLeft.y = Math.min(topLeft.y, corner.y);
+            bottomRight.x = Math.max(bottomRight.x, corner.x);
+            bottomRight.y = Math.max(bottomRight.y, corner.y);
+        }
+
+        return { x: topLeft.x, y: topLeft.y, w: bottomRight.x - topLeft.x, h: bottomRight.y - topLeft.y };
+    }
+
+    draw(canvas: Canvas) {
+        const cornerCount = this.corners.length;
+        if (cornerCount > 1) {
+            const firstCorner = this.corners[0];
+            canvas.ctx.beginPath();
+            canvas.ctx.moveTo(firstCorner.x, firstCorner.y);
+
+            for (const corner of this.corners.slice(1))
+                canvas.ctx.lineTo(corner.x, corner.y);
+            canvas.ctx.lineTo(firstCorner.x, firstCorner.y);
+
+            canvas.ctx.fillStyle = this.colour;
+            canvas.ctx.fill();
+
+            canvas.ctx.strokeStyle = this.border;
+            canvas.ctx.lineWidth = 2;
+            canvas.ctx.stroke();
+        }
+    }
+
+    edges(): LineSegment[] {
+        return [...this.lines()].map(([a, b]) => new LineSegment(a, b));
+    }
+
+    *lines(): IterableIterator<[Point, Point]> {
+        for (let i = 0, j = this.corners.length - 1; i < this.corners.length; j = i++)
+            yield [this.corners[i], this.corners[j]];
+    }
+
+    contains(p: Point): boolean {
+        return pointInPolygon(this.corners, p);
+    }
+
+    serialize(): PolygonData {
+        return {
+            kind: this.kind,
+            colour: this.colour,
+            border: this.border,
+            corners: this.corners,
+        };
+    }
+
+    static deserialize(raw: PolygonData): Polygon {
+        const polygon = new Polygon({ x: 0, y: 0 });
+        polygon.colour = raw.colour;
+        polygon.border = raw.border;
+        polygon.corners = raw.corners.map(p => Object.assign({}, p));
+
+        return polygon;
+    }
+}
+
+export class Box implements Shape {
+    readonly kind = 'box';
+    rect: Rect;
+    colour: string = '#cfc';
+    border: string = '#373';
+    readonly snap = true;
+
+    public get top(): number { return this.rect.y; };
+    public get left(): number { return this.rect.x; };
+    public get bottom(): number { return this.rect.y + this.rect.h; };
+    public get right(): number { return this.rect.x + this.rect.w; };
+
+    constructor(rect: { x?: number, y?: number, w?: number, h?: number; }) {
+        this.rect = Object.assign({ x: 0, y: 0, w: 1, h: 1 }, rect);
+    }
+
+    public get origin(): Point { return { x: this.left, y: this.top }; }
+    public set origin(p: Point) {
+        this.rect.x = p.x;
+        this.rect.y = p.y;
+    }
+
+    cornersForEye(p: Eye): Point[] {
+        const topLeft = { x: this.left, y: this.top };
+        const bottomLeft = { x: this.left, y: this.bottom };
+        const topRight = { x: this.right, y: this.top };
+        const bottomRight = { x: this.right, y: this.bottom };
+
+        const corners = new Set<Point>();
+        if (p.pos.x < this.left) {
+            corners.add(topLeft);
+            corners.add(bottomLeft);
+        } else if (p.pos.x > this.right) {
+            corners.add(topRight);
+            corners.add(bottomRight);
+        }
+        if (p.pos.y < this.top) {
+            corners.add(topLeft);
+            corners.add(topRight);
+        } else if (p.pos.y > this.bottom) {
+            corners.add(bottomLeft);
+            corners.add(bottomRight);
+        }
+        return [...corners.values()];
+    }
+
+    edges(): LineSegment[] {
+        const topLeft = { x: this.left, y: this.top };
+        const topRight = { x: this.right, y: this.top };
+        const bottomRight = { x: this.right, y: this.bottom };
+        const bottomLeft = { x: this.left, y: this.bottom };
+        return [
+            new LineSegment(topLeft, topRight),
+            new LineSegment(topRight, bottomRight),
+            new LineSegment(bottomRight, bottomLeft),
+            new LineSegment(bottomLeft, topLeft),
+        ];
+    }
+
+    arcIntersections(arc: { pos: Point; dist: number; }): Point[] {
+        const intersections: Point[] = [];
+        for (const edge of this.edges()) {
+            lineCircleIntersections(edge.start, edge.end, arc.pos, arc.dist)
+                .filter(t => t > 0 && t < 1)
+                .map(t => intersections.push(lerp(edge.start, edge.end, t)));
+        }
+
+        return intersections;
+    }
+
+    lineIntersections(line: LineSegment): Point | undefined {
+        const intersections: Point[] = [];
+        for (let edge of this.edges()) {
+            const intersection = line.intersection(edge);
+            if (intersection && !approxEqual(intersection, edge.start) && !approxEqual(intersection, edge.end))
+                intersections.push(intersection);
+        }
+        return intersections.sort((a, b) => vecLen(line.start, a) - vecLen(line.start, b))[0];
+    }
+
+    outlineAt(p: Point): LineSegment {
+        return this.edges().sort((a, b) => a.distanceTo(p) - b.distanceTo(p))[0];
+    }
+
+    boundingRect(): Rect {
+        return Object.assign({}, this.rect);
+    }
+
+    contains(p: Point): boolean {
+        return contains(this.rect, p);
+    }
+
+    draw(canvas: Canvas) {
+        canvas.fillRect(this.rect, this.colour);
+
+        canvas.ctx.strokeStyle = this.border;
+        canvas.ctx.lineWidth = 2;
+        canvas.strokeRect(grow(this.rect, -1));
+    }
+
+    serialize(): BoxData {
+        return {
+            kind: this.kind,
+            colour: this.colour,
+            border: this.border,
+            rect: this.rect,
+        };
+    }
+
+    static deserialize(raw: BoxData): Box {
+        const rect = new Box(raw.rect);
+        rect.colour = raw.colour;
+        rect.border = raw.border;
+
+        return rect;
+    }
+}
+
+// a box that can be opened, after which it stops blocking sight, movement and sound
+export class Door implements Shape {
+    readonly kind = 'door';
+    readonly snap = true;
+    colour = '#db9';
+    border = '#752';
+    id: string; // for switches to find it by
+    open = false;
+
+    #box: Box; // the shape it blocks while closed
+
+    constructor(rect: Rect, id: string) {
+        this.#box = new Box(rect);
+        this.id = id;
+    }
+
+    public get rect(): Rect { return this.#box.rect; }
+    public set rect(rect: Rect) { this.#box.rect = rect; }
+
+    public get origin(): Point { return this.#box.origin; }
+    public set origin(p: Point) { this.#box.origin = p; }
+
+    cornersForEye(eye: Eye): Point[] { return this.#box.cornersForEye(eye); }
+    arcIntersections(arc: { pos: Point, dist: number; }): Point[] { return this.#box.arcIntersections(arc); }
+    lineIntersections(seg: LineSegment): Point | undefined { return this.#box.lineIntersections(seg); }
+    edges(): LineSegment[] { return this.#box.edges(); }
+    outlineAt(p: Point): LineSegment { return this.#box.outlineAt(p); }
+    boundingRect(): Rect { return this.#box.boundingRect(); }
+    contains(p: Point): boolean { return this.#box.contains(p); }
+
+    draw(canvas: Canvas) {
+        if (!this.open)
+            canvas.fillRect(this.rect, this.colour);
+
+        // an open door is just its frame, dashed
+        canvas.ctx.strokeStyle = this.border;
+        canvas.ctx.lineWidth = this.open ? 1 : 2;
+        if (this.open)
+            canvas.ctx.setLineDash([4, 3]);
+        canvas.strokeRect(grow(this.rect, -1));
+        canvas.ctx.setLineDash([]);
+    }
+
+    serialize(): DoorData {
+        return { kind: this.kind, colour: this.colour, border: this.border, rect: this.rect, id: this.id, open: this.open };
+    }
+
+    static deserialize(raw: DoorData): Door {
+        const door = new Door(raw.rect, raw.id);
+        door.colour = raw.colour;
+        door.border = raw.border;
+        door.open = raw.open;
+        return door;
+    }
+}
+
+export class Circle implements Shape {
+    readonly kind = 'circle';
+    colour: string = '#fcc';
+    border: string = '#f33';
+    readonly snap = true;
+
+    radius = 1;
+    origin: Point;
+
+    constructor(origin: Point) {
+        this.origin = Object.assign({}, origin);
+    }
+
+    cornersForEye(p: Eye): Point[] {
+        const diff = { x: p.pos.x - this.origin.x, y: p.pos.y - this.origin.y };
+        const length = Math.sqrt(diff.x ** 2 + diff.y ** 2);
+
+        if (length <= this.radius) return [];
+        const th = Math.acos(this.radius / length);
+        const d = Math.atan2(diff.y, diff.x);
+
+        return [
+            { x: this.origin.x + Math.cos(d + th) * this.radius, y: this.origin.y + Math.sin(d + th) * this.radius },
+            { x: this.origin.x + Math.cos(d - th) * this.radius, y: this.origin.y + Math.sin(d - th) * this.radius },
+        ];
+    }
+
+    arcIntersections(arc: { pos: Point; dist: number; }): Point[] {
+        // http://paulbourke.net/geometry/circlesphere/ (intersection of two circles)
+        const d = vecLen(arc.pos, this.origin);
+        if (d === 0 || d > arc.dist + this.radius || d < Math.abs(arc.dist - this.radius))
+            // concentric, separate or one inside the other
+            return [];
+
+        const a = (arc.dist ** 2 - this.radius ** 2 + d ** 2) / (2 * d);
+        const h = Math.sqrt(Math.max(arc.dist ** 2 - a ** 2, 0));
+        const mid = lerp(arc.pos, this.origin, a / d);
+        const offset = { x: -(this.origin.y - arc.pos.y) * h / d, y: (this.origin.x - arc.pos.x) * h / d };
+
+        return [
+            { x: mid.x + offset.x, y: mid.y + offset.y },
+            { x: mid.x - offset.x, y: mid.y - offset.y },
+        ];
+    }
+
+    lineIntersections(seg: LineSegment): Point | undefined {
+        // the first crossing along the segment (the exit, if the segment starts inside)
+        const t = lineCircleIntersections(seg.start, seg.end, this.origin, this.radius)
+            .find(t => t >= 0 && t <= 1);
+        if (t === undefined)
+            return;
+
+        return lerp(seg.start, seg.end, t);
+    }
+
+    edges(): LineSegment[] {
+        return [];
+    }
+
+    outlineAt(_p: Point): Circle {
+        return this;
+    }
+
+    contains(p: Point): boolean {
+        return circleContains(this.origin, this.radius, p);
+    }
+
+    boundingRect(): Rect {
+        return { x: this.origin.x - this.radius, y: this.origin.y - this.radius, w: this.radius * 2, h: this.radius * 2 };
+    }
+
+    draw(canvas: Canvas) {
+        canvas.fillCircle(this.origin, this.radius, this.colour);
+
+        canvas.ctx.strokeStyle = this.border;
+        canvas.ctx.lineWidth = 2;
+        canvas.strokeCircle(this.origin, this.radius - 0.5);
+    }
+
+    serialize(): CircleData {
+        return {
+            kind: this.kind,
+            colour: this.colour,
+            border: this.border,
+            radius: this.radius,
+            origin: this.origin
+        };
+    }
+
+    static deserialize(raw: CircleData): Circle {
+        const circle = new Circle(raw.origin);
+        circle.colour = raw.colour;
+        circle.border = raw.border;
+        circle.radius = raw.radius;
+
+        return circle;
+    }
+}
+
+// timings for how guards react, shared by every guard in a level
+export type GuardTuning = GuardTuningData;
+
+export type Level = { shapes: RevArray<Shape>, eyes: Eye[], lights?: Light[], switches?: Switch[], guards?: GuardTuning, start?: Point; };
+
+const SAVE_PREFIX = 'save.';
+
+// what the level browser shows about a save slot, without deserializing the whole level
+export type SaveInfo = {
+    name: string;
+    modified?: number; // ms since the epoch, missing on saves from before it was recorded
+    shapeCount: number;
+    eyeCount: number;
+};
+
+export function saveLevel(saveName: string, level: Level) {
+    localStorage.setItem(SAVE_PREFIX + saveName, JSON.stringify({ ...serializeLevel(level), modified: Date.now() }));
+}
+
+// an empty slot is an empty level, a corrupt one throws a LevelFormatError
+export function loadLevel(saveName: string): Level {
+    const levelString = localStorage.getItem(SAVE_PREFIX + saveName);
+    if (levelString === null)
+        return { shapes: new RevArray<Shape>(), eyes: [] };
+
+    return parseLevelJson(levelString);
+}
+
+// most recently modified first
+export function listSaves(): SaveInfo[] {
+    const saves: SaveInfo[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(SAVE_PREFIX))
+            continue;
+
+        let raw: unknown;
+        try {
+            raw = JSON.parse(localStorage.getItem(key) ?? '{}');
+        } catch {
+            continue;
+        }
+
+        // a save that doesn't validate is still listed, so it can be deleted
+        let level: LevelData | undefined;
+        try {
+            level = validateLevel(raw);
+        } catch (e) {
+            if (!(e instanceof LevelFormatError))
+                throw e;
+        }
+        const modified = typeof raw === 'object' && raw !== null && 'modified' in raw ? raw.modified : undefined;
+
+        saves.push({
+            name: key.slice(SAVE_PREFIX.length),
+            modified: typeof modified === 'number' ? modified : undefined,
+            shapeCount: level?.shapes.length ?? 0,
+            eyeCount: level?.eyes.length ?? 0,
+        });
+    }
+
+    return saves.sort((a, b) => (b.modified ?? 0) - (a.modified ?? 0));
+}
+
+export const saveExists = (saveName: string): boolean => localStorage.getItem(SAVE_PREFIX + saveName) !== null;
+
+export function deleteSave(saveName: string) {
+    localStorage.removeItem(SAVE_PREFIX + saveName);
+}
+
+export function copySave(from: string, to: string) {
+    const levelString = localStorage.getItem(SAVE_PREFIX + from);
+    if (levelString !== null)
+        localStorage.setItem(SAVE_PREFIX + to, levelString);
+}
+
+export function renameSave(from: string, to: string) {
+    if (from === to)
+        return;
+
+    copySave(from, to);
+    deleteSave(from);
+}
+
+export function serializeLevel(level: {
+    shapes: Shape[], eyes: Eye[], lights?: Light[], switches?: Switch[], guards?: GuardTuning, start?: Point;
+}): LevelData {
+    return {
+        version: LEVEL_VERSION,
+        shapes: level.shapes.map(shape => shape.serialize()),
+        eyes: level.eyes.map(eye => eye.serialize()),
+        lights: level.lights?.map(light => light.serialize()),
+        switches: level.switches?.map(sw => sw.serialize()),
+        guards: level.guards && Object.assign({}, level.guards),
+        start: level.start && Object.assign({}, level.start),
+    };
+}
+
+export function parseLevelJson(json: string): Level {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new LevelFormatError('level', 'not valid JSON');
+    }
+    return parseLevel(raw);
+}
+
+// accepts a level of any known version (or a fragment of one), throwing a LevelFormatError if it's invalid
+export function parseLevel(raw: unknown, options: { fragment?: boolean; } = {}): Level {
+    const level = validateLevel(raw, options);
+    const result: Level = { shapes: new RevArray<Shape>(), eyes: [] };
+    for (const shape of level.shapes) {
+        switch (shape.kind) {
+            case 'polygon':
+                result.shapes.push(Polygon.deserialize(shape));
+                break;
+            case 'circle':
+                result.shapes.push(Circle.deserialize(shape));
+                break;
+            case 'box':
+                result.shapes.push(Box.deserialize(shape));
+                break;
+            case 'door':
+                result.shapes.push(Door.deserialize(shape));
+                break;
+        }
+    }
+    result.eyes = level.eyes.map(eye => Eye.deserialize(eye));
+    if (level.lights)
+        result.lights = level.lights.map(light => Light.deserialize(light));
+    if (level.switches)
+        result.switches = level.switches.map(sw => Switch.deserialize(sw));
+    if (level.guards)
+        result.guards = Object.assign({}, level.guards);
+    if (level.start)
+        result.start = Object.assign({}, level.start);
+
+    return result;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { Box, Circle, Door, Eye, Light, parseLevel, Polygon, RevArray, serializeLevel, Shape, Switch } from "./Level";
+import { LEVEL_VERSION, LevelFormatError, migrateLevel, validateLevel } from "./LevelFormat";
+
+const box = { kind: 'box', colour: '#cfc', border: '#373', rect: { x: 10, y: 20, w: 30, h: 40 } };
+const eye = { pos: { x: 5, y: 5 }, angle: 0, fov: Math.PI / 2, dist: 200, speed: 60, patrol: [] };
+
+const expectError = (raw: unknown, path: string) => {
+    expect(() => validateLevel(raw)).toThrowError(LevelFormatError);
+    try {
+        validateLevel(raw);
+    } catch (e) {
+        expect((e as LevelFormatError).path).toBe(path);
+    }
+};
+
+describe("level format", () => {
+    it("round-trips through serializeLevel", () => {
+        const polygon = new Polygon({ x: 0, y: 0 });
+        polygon.corners.push({ x: 10, y: 0 }, { x: 10, y: 10 });
+        const circle = new Circle({ x: 50, y: 50 });
+        circle.radius = 15;
+        const guard = new Eye({ x: 100, y: 100 });
+        guard.patrol.push({ pos: { x: 150, y: 100 }, wait: 2, look: 1 }, { pos: { x: 100, y: 150 }, wait: 0 });
+        const camera = new Eye({ x: 200, y: 200 });
+        camera.sweep = { mode: 'pingpong', from: 0, to: 1, turnSpeed: 0.5, pause: 2 };
+        camera.detection = { rate: 2, closeDist: 30, closeRate: 3, focus: 0.5, peripheralRate: 0.2, decay: 1, suspicious: 0.5 };
+
+        const light = new Light({ x: 40, y: 60 });
+        light.colour = '#f00';
+        light.intensity = 0.5;
+        light.id = 'light1';
+        light.on = false;
+        const door = new Door({ x: 0, y: 100, w: 10, h: 30 }, 'door1');
+        door.open = true;
+        const sw = new Switch({ x: 20, y: 120 });
+        sw.links.push('door1', 'light1');
+
+        const shapes = new RevArray<Shape>(polygon, new Box(box.rect), circle, door);
+        const guards = { reactionTime: 1, searchTime: 2, chaseSpeed: 90, catchDistance: 15 };
+        const json = JSON.parse(JSON.stringify(serializeLevel({ shapes, eyes: [guard, camera], lights: [light], switches: [sw], guards, start: { x: 20, y: 30 } })));
+        expect(json.version).toBe(LEVEL_VERSION);
+
+        const level = parseLevel(json);
+        expect(level.shapes.map(shape => shape.kind)).toEqual(['polygon', 'box', 'circle', 'door']);
+        expect(level.shapes[3]).toMatchObject({ id: 'door1', open: true });
+        expect(level.switches?.[0].links).toEqual(['door1', 'light1']);
+        expect((level.shapes[2] as Circle).radius).toBe(15);
+        expect(level.eyes[0].patrol).toEqual(guard.patrol);
+        expect(level.eyes[0].sweep.mode).toBe('off');
+        expect(level.eyes[1].sweep).toEqual(camera.sweep);
+        expect(level.eyes[1].detection).toEqual(camera.detection);
+        expect(level.guards).toEqual(guards);
+        expect(level.start).toEqual({ x: 20, y: 30 });
+        expect(level.lights?.map(light => light.serialize())).toEqual([light.serialize()]);
+        expect(serializeLevel(level)).toEqual(json);
+    });
+
+    it("migrates unversioned saves of the live objects", () => {
+        const old = {
+            shapes: [box],
+            eyes: [{ snap: false, pos: { x: 1, y: 2 }, angle: 1, fov: 1, dist: 100, rays: [[{ start: {}, end: {} }, null]], path: {} }],
+        };
+
+        expect(migrateLevel(old)).toMatchObject({ version: LEVEL_VERSION });
+        const level = validateLevel(old);
+        expect(level.eyes[0]).toEqual({ pos: { x: 1, y: 2 }, angle: 1, fov: 1, dist: 100, speed: 60, patrol: [] });
+        expect(level.shapes[0]).toEqual(box);
+    });
+
+    it("migrates version 1 saves, from before any of the optional fields", () => {
+        const old = { version: 1, shapes: [box], eyes: [eye] };
+        expect(migrateLevel(old)).toEqual({ ...old, version: LEVEL_VERSION });
+        const level = validateLevel(old);
+        expect(level.lights).toBeUndefined();
+        expect(level.switches).toBeUndefined();
+    });
+
+    it("rejects newer versions", () => {
+        expectError({ version: LEVEL_VERSION + 1, shapes: [], eyes: [] }, 'version');
+    });
+
+    it("reports where a level is broken", () => {
+        const level = (changes: object) => { return { version: LEVEL_VERSION, shapes: [box], eyes: [eye], ...changes }; };
+
+        expectError(null, 'level');
+        expectError(level({ shapes: undefined }), 'shapes');
+        expectError(level({ shapes: [box, { ...box, kind: 'triangle' }] }), 'shapes[1].kind');
+        expectError(level({ shapes: [{ ...box, rect: { ...box.rect, w: 'wide' } }] }), 'shapes[0].rect.w');
+        expectError(level({ shapes: [{ ...box, colour: 42 }] }), 'shapes[0].colour');
+        expectError(level({ shapes: [{ kind: 'circle', colour: '#fff', border: '#000', origin: { x: 0, y: 0 }, radius: -1 }] }), 'shapes[0].radius');
+        expectError(level({ eyes: [{ ...eye, fov: 10 }] }), 'eyes[0].fov');
+        expectError(level({ eyes: [{ ...eye, pos: { x: null, y: 0 } }] }), 'eyes[0].pos.x');
+        expectError(level({ eyes: [{ ...eye, patrol: [{ pos: { x: 0, y: 0 }, wait: -2 }] }] }), 'eyes[0].patrol[0].wait');
+        expectError(level({ eyes: [{ ...eye, sweep: { mode: 'wobble', from: 0, to: 1, turnSpeed: 1, pause: 0 } }] }), 'eyes[0].sweep.mode');
+        expectError(level({ eyes: [{ ...eye, detection: { rate: 1, closeDist: 50, closeRate: 4, focus: 1, peripheralRate: 0.3, decay: 1, suspicious: 2 } }] }), 'eyes[0].detection.suspicious');
+        expectError(level({ guards: { reactionTime: 1, searchTime: -1, chaseSpeed: 90, catchDistance: 15 } }), 'guards.searchTime');
+        expectError(level({ start: { x: 0 } }), 'start.y');
+        expectError(level({ shapes: [{ ...box, kind: 'door', id: 'door1', open: 'yes' }] }), 'shapes[0].open');
+        expectError(level({ switches: [{ pos: { x: 0, y: 0 }, links: [3] }] }), 'switches[0].links[0]');
+        expectError(level({ lights: [{ pos: { x: 0, y: 0 }, colour: '#fff', radius: 100, intensity: 2 }] }), 'lights[0].intensity');
+    });
+
+    it("rejects shared ids and links to doors or lights that aren't there", () => {
+        const door = { ...box, kind: 'door', id: 'door1', open: false };
+        const light = { pos: { x: 0, y: 0 }, colour: '#fff', radius: 100, intensity: 1, id: 'door1' };
+        const sw = { pos: { x: 0, y: 0 }, links: ['door1', 'door2'] };
+        const level = (changes: object) => { return { version: LEVEL_VERSION, shapes: [door], eyes: [], ...changes }; };
+
+        expectError(level({ shapes: [door, door] }), 'shapes[1].id');
+        expectError(level({ lights: [light] }), 'lights[0].id');
+        expectError(level({ switches: [sw] }), 'switches[0].links[1]');
+        expect(validateLevel(level({ switches: [{ ...sw, links: ['door1'] }] })).switches?.[0].links).toEqual(['door1']);
+        // a copied switch can still link to a door that wasn't copied with it
+        expect(validateLevel({ ...level({ switches: [sw] }), shapes: [] }, { fragment: true }).switches?.[0].links).toEqual(['door1', 'door2']);
+    });
+});
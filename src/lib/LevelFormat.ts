@@ -0,0 +1,318 @@
+import { Point, Rect } from "./Canvas";
+
+// bump this and add a migration whenever the saved format changes
+export const LEVEL_VERSION = 6;
+
+export type WaypointData = { pos: Point, wait: number, look?: number; };
+export type SweepData = { mode: 'off' | 'pingpong' | 'rotate', from: number, to: number, turnSpeed: number, pause: number; };
+export type DetectionData = {
+    rate: number, closeDist: number, closeRate: number, focus: number, peripheralRate: number, decay: number, suspicious: number;
+};
+export type EyeData = {
+    pos: Point, angle: number, fov: number, dist: number, speed: number, patrol: WaypointData[], sweep?: SweepData, detection?: DetectionData;
+};
+export type PolygonData = { kind: 'polygon', colour: string, border: string, corners: Point[]; };
+export type BoxData = { kind: 'box', colour: string, border: string, rect: Rect; };
+export type CircleData = { kind: 'circle', colour: string, border: string, origin: Point, radius: number; };
+export type DoorData = { kind: 'door', colour: string, border: string, rect: Rect, id: string, open: boolean; };
+export type ShapeData = PolygonData | BoxData | CircleData | DoorData;
+export type LightData = { pos: Point, colour: string, radius: number, intensity: number, id?: string, on?: boolean; };
+export type SwitchData = { pos: Point, links: string[]; };
+export type GuardTuningData = { reactionTime: number, searchTime: number, chaseSpeed: number, catchDistance: number; };
+export type LevelData = {
+    version: number, shapes: ShapeData[], eyes: EyeData[], lights?: LightData[], switches?: SwitchData[], guards?: GuardTuningData, start?: Point;
+};
+
+export class LevelFormatError extends Error {
+    path: string; // where in the level the problem is, e.g. "shapes[2].rect.w"
+
+    constructor(path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = 'LevelFormatError';
+        this.path = path;
+    }
+}
+
+// migrations[n] upgrades a version n level to version n + 1. A new optional field needs nothing changing, but still
+// gets a version, so older builds refuse levels that use it instead of quietly dropping it
+const migrations: ((raw: { [key: string]: unknown; }) => { [key: string]: unknown; })[] = [
+    // version 0 had no version field, and was JSON.stringify of the live objects,
+    // so eyes carry their cached rays and path along with them. Older saves also predate patrols.
+    raw => {
+        return {
+            shapes: raw.shapes ?? [],
+            eyes: Array.isArray(raw.eyes)
+                ? raw.eyes.map((eye: unknown) => {
+                    // anything that isn't an object is left for validateLevel to report
+                    if (!isObject(eye))
+                        return eye;
+                    return {
+                        pos: eye.pos,
+                        angle: eye.angle,
+                        fov: eye.fov,
+                        dist: eye.dist,
+                        speed: eye.speed ?? 60,
+                        patrol: eye.patrol ?? [],
+                    };
+                })
+                : raw.eyes ?? [],
+        };
+    },
+    // version 2 added sweeping eyes
+    raw => raw,
+    // version 3 added guard tuning
+    raw => raw,
+    // version 4 added the player's start point
+    raw => raw,
+    // version 5 added eyes' detection tuning
+    raw => raw,
+    // version 6 added lights, doors and switches
+    raw => raw,
+];
+
+const describe = (value: unknown): string => {
+    if (Array.isArray(value)) return 'an array';
+    if (value === null) return 'null';
+    if (typeof value === 'string') return `"${value.length > 20 ? value.slice(0, 20) + '…' : value}"`;
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+};
+
+const isObject = (raw: unknown): raw is { [key: string]: unknown; } => typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+
+function readObject(raw: unknown, path: string): { [key: string]: unknown; } {
+    if (!isObject(raw))
+        throw new LevelFormatError(path, `expected an object, got ${describe(raw)}`);
+    return raw;
+}
+
+function readArray(raw: unknown, path: string): unknown[] {
+    if (!Array.isArray(raw))
+        throw new LevelFormatError(path, `expected an array, got ${describe(raw)}`);
+    return raw;
+}
+
+function readNumber(raw: unknown, path: string, min = -Infinity, max = Infinity): number {
+    if (typeof raw !== 'number' || !Number.isFinite(raw))
+        throw new LevelFormatError(path, `expected a number, got ${describe(raw)}`);
+    if (raw < min || raw > max)
+        throw new LevelFormatError(path, `expected a number from ${min} to ${max}, got ${raw}`);
+    return raw;
+}
+
+function readString(raw: unknown, path: string): string {
+    if (typeof raw !== 'string' || raw === '')
+        throw new LevelFormatError(path, `expected a name, got ${describe(raw)}`);
+    return raw;
+}
+
+function readBoolean(raw: unknown, path: string): boolean {
+    if (typeof raw !== 'boolean')
+        throw new LevelFormatError(path, `expected true or false, got ${describe(raw)}`);
+    return raw;
+}
+
+// hex, rgb()/rgba() or a named colour
+function readColour(raw: unknown, path: string): string {
+    if (typeof raw !== 'string' || !/^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\([\d\s.,%]+\)|[a-z]+)$/i.test(raw))
+        throw new LevelFormatError(path, `expected a colour, got ${describe(raw)}`);
+    return raw;
+}
+
+function readPoint(raw: unknown, path: string): Point {
+    const p = readObject(raw, path);
+    return { x: readNumber(p.x, `${path}.x`), y: readNumber(p.y, `${path}.y`) };
+}
+
+function readRect(raw: unknown, path: string): Rect {
+    const rect = readObject(raw, path);
+    return {
+        x: readNumber(rect.x, `${path}.x`),
+        y: readNumber(rect.y, `${path}.y`),
+        w: readNumber(rect.w, `${path}.w`, 0),
+        h: readNumber(rect.h, `${path}.h`, 0),
+    };
+}
+
+function readShape(raw: unknown, path: string): ShapeData {
+    const shape = readObject(raw, path);
+    const colour = readColour(shape.colour, `${path}.colour`);
+    const border = readColour(shape.border, `${path}.border`);
+
+    switch (shape.kind) {
+        case 'polygon': {
+            const corners = readArray(shape.corners, `${path}.corners`).map((p, i) => readPoint(p, `${path}.corners[${i}]`));
+            if (corners.length === 0)
+                throw new LevelFormatError(`${path}.corners`, 'a polygon needs at least one corner');
+            return { kind: 'polygon', colour, border, corners };
+        }
+        case 'box':
+            return { kind: 'box', colour, border, rect: readRect(shape.rect, `${path}.rect`) };
+        case 'door':
+            return {
+                kind: 'door', colour, border,
+                rect: readRect(shape.rect, `${path}.rect`),
+                id: readString(shape.id, `${path}.id`),
+                open: readBoolean(shape.open, `${path}.open`),
+            };
+        case 'circle':
+            return {
+                kind: 'circle', colour, border,
+                origin: readPoint(shape.origin, `${path}.origin`),
+                radius: readNumber(shape.radius, `${path}.radius`, 0),
+            };
+        default:
+            throw new LevelFormatError(`${path}.kind`, `unknown shape kind ${describe(shape.kind)}`);
+    }
+}
+
+function readWaypoint(raw: unknown, path: string): WaypointData {
+    const waypoint = readObject(raw, path);
+    const result: WaypointData = {
+        pos: readPoint(waypoint.pos, `${path}.pos`),
+        wait: readNumber(waypoint.wait, `${path}.wait`, 0),
+    };
+    // JSON has no undefined, so a missing look may also come back as null
+    if (waypoint.look !== undefined && waypoint.look !== null)
+        result.look = readNumber(waypoint.look, `${path}.look`);
+    return result;
+}
+
+function readSweep(raw: unknown, path: string): SweepData {
+    const sweep = readObject(raw, path);
+    if (sweep.mode !== 'off' && sweep.mode !== 'pingpong' && sweep.mode !== 'rotate')
+        throw new LevelFormatError(`${path}.mode`, `unknown sweep mode ${describe(sweep.mode)}`);
+    return {
+        mode: sweep.mode,
+        from: readNumber(sweep.from, `${path}.from`),
+        to: readNumber(sweep.to, `${path}.to`),
+        turnSpeed: readNumber(sweep.turnSpeed, `${path}.turnSpeed`, 0),
+        pause: readNumber(sweep.pause, `${path}.pause`, 0),
+    };
+}
+
+function readDetection(raw: unknown, path: string): DetectionData {
+    const detection = readObject(raw, path);
+    return {
+        rate: readNumber(detection.rate, `${path}.rate`, 0),
+        closeDist: readNumber(detection.closeDist, `${path}.closeDist`, 0),
+        closeRate: readNumber(detection.closeRate, `${path}.closeRate`, 0),
+        focus: readNumber(detection.focus, `${path}.focus`, 0, 2 * Math.PI),
+        peripheralRate: readNumber(detection.peripheralRate, `${path}.peripheralRate`, 0),
+        decay: readNumber(detection.decay, `${path}.decay`, 0),
+        suspicious: readNumber(detection.suspicious, `${path}.suspicious`, 0, 1),
+    };
+}
+
+function readEye(raw: unknown, path: string): EyeData {
+    const eye = readObject(raw, path);
+    const result: EyeData = {
+        pos: readPoint(eye.pos, `${path}.pos`),
+        angle: readNumber(eye.angle, `${path}.angle`),
+        fov: readNumber(eye.fov, `${path}.fov`, 0, 2 * Math.PI),
+        dist: readNumber(eye.dist, `${path}.dist`, 0),
+        speed: readNumber(eye.speed, `${path}.speed`, 0),
+        patrol: readArray(eye.patrol, `${path}.patrol`).map((w, i) => readWaypoint(w, `${path}.patrol[${i}]`)),
+    };
+    // eyes that don't sweep leave it out
+    if (eye.sweep !== undefined && eye.sweep !== null)
+        result.sweep = readSweep(eye.sweep, `${path}.sweep`);
+    // and eyes saved before detection built up over time get the defaults
+    if (eye.detection !== undefined && eye.detection !== null)
+        result.detection = readDetection(eye.detection, `${path}.detection`);
+    return result;
+}
+
+function readLight(raw: unknown, path: string): LightData {
+    const light = readObject(raw, path);
+    const result: LightData = {
+        pos: readPoint(light.pos, `${path}.pos`),
+        colour: readColour(light.colour, `${path}.colour`),
+        radius: readNumber(light.radius, `${path}.radius`, 0),
+        intensity: readNumber(light.intensity, `${path}.intensity`, 0, 1),
+    };
+    // only lights that switches are linked to have an id, and a light is on unless it says otherwise
+    if (light.id !== undefined && light.id !== null)
+        result.id = readString(light.id, `${path}.id`);
+    if (light.on !== undefined && light.on !== null)
+        result.on = readBoolean(light.on, `${path}.on`);
+    return result;
+}
+
+function readSwitch(raw: unknown, path: string): SwitchData {
+    const sw = readObject(raw, path);
+    return {
+        pos: readPoint(sw.pos, `${path}.pos`),
+        links: readArray(sw.links, `${path}.links`).map((id, i) => readString(id, `${path}.links[${i}]`)),
+    };
+}
+
+function readGuardTuning(raw: unknown, path: string): GuardTuningData {
+    const guards = readObject(raw, path);
+    return {
+        reactionTime: readNumber(guards.reactionTime, `${path}.reactionTime`, 0),
+        searchTime: readNumber(guards.searchTime, `${path}.searchTime`, 0),
+        chaseSpeed: readNumber(guards.chaseSpeed, `${path}.chaseSpeed`, 0),
+        catchDistance: readNumber(guards.catchDistance, `${path}.catchDistance`, 0),
+    };
+}
+
+// brings a level of any known version up to date
+export function migrateLevel(raw: unknown): unknown {
+    let level = readObject(raw, 'level');
+    const version = level.version === undefined ? 0 : readNumber(level.version, 'version', 0);
+    if (!Number.isInteger(version))
+        throw new LevelFormatError('version', `expected a whole number, got ${version}`);
+    if (version > LEVEL_VERSION)
+        throw new LevelFormatError('version', `saved by a newer version of the game (${version}, this is ${LEVEL_VERSION})`);
+
+    for (let v = version; v < LEVEL_VERSION; v++)
+        level = migrations[v](level);
+
+    return { ...level, version: LEVEL_VERSION };
+}
+
+// switches work doors and lights by id, so no two can share one, and every link has to lead to one of them.
+// A fragment of a level (like a copied selection) can link to doors and lights outside it
+function checkIds(level: LevelData, fragment: boolean) {
+    const ids = new Set<string>();
+    const claim = (id: string | undefined, path: string) => {
+        if (id === undefined)
+            return;
+        if (ids.has(id))
+            throw new LevelFormatError(path, `another door or light already has the id "${id}"`);
+        ids.add(id);
+    };
+    level.shapes.forEach((shape, i) => claim(shape.kind === 'door' ? shape.id : undefined, `shapes[${i}].id`));
+    level.lights?.forEach((light, i) => claim(light.id, `lights[${i}].id`));
+
+    if (fragment)
+        return;
+    level.switches?.forEach((sw, i) => sw.links.forEach((link, j) => {
+        if (!ids.has(link))
+            throw new LevelFormatError(`switches[${i}].links[${j}]`, `no door or light has the id "${link}"`);
+    }));
+}
+
+// migrates and strictly checks a level, throwing a LevelFormatError describing the first problem found
+export function validateLevel(raw: unknown, { fragment = false } = {}): LevelData {
+    const level = readObject(migrateLevel(raw), 'level');
+    const result: LevelData = {
+        version: LEVEL_VERSION,
+        shapes: readArray(level.shapes, 'shapes').map((shape, i) => readShape(shape, `shapes[${i}]`)),
+        eyes: readArray(level.eyes, 'eyes').map((eye, i) => readEye(eye, `eyes[${i}]`)),
+    };
+    // levels without lights are lit all over
+    if (level.lights !== undefined && level.lights !== null)
+        result.lights = readArray(level.lights, 'lights').map((light, i) => readLight(light, `lights[${i}]`));
+    if (level.switches !== undefined && level.switches !== null)
+        result.switches = readArray(level.switches, 'switches').map((sw, i) => readSwitch(sw, `switches[${i}]`));
+    // levels without guard tuning use the defaults
+    if (level.guards !== undefined && level.guards !== null)
+        result.guards = readGuardTuning(level.guards, 'guards');
+    // and without a start point the game finds somewhere to put the player
+    if (level.start !== undefined && level.start !== null)
+        result.start = readPoint(level.start, 'start');
+    checkIds(result, fragment);
+    return result;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { Box, Eye, RevArray, serializeLevel, Shape } from "./Level";
+import { LevelFormatError } from "./LevelFormat";
+import { decodeLevel, encodeLevel, levelFromHash } from "./LevelShare";
+
+describe("share links", () => {
+    const eye = new Eye({ x: 40, y: 40 });
+    eye.patrol.push({ pos: { x: 80, y: 40 }, wait: 1 });
+    const level = { shapes: new RevArray<Shape>(new Box({ x: 0, y: 0, w: 20, h: 20 })), eyes: [eye] };
+
+    it("round-trips a level through URL-safe text", async () => {
+        const text = await encodeLevel(level);
+        expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(serializeLevel(await decodeLevel(text))).toEqual(serializeLevel(level));
+    });
+
+    it("only reads levels from a level hash", async () => {
+        expect(await levelFromHash('')).toBeUndefined();
+        expect(await levelFromHash('#other')).toBeUndefined();
+        const decoded = await levelFromHash('#level=' + await encodeLevel(level));
+        expect(decoded?.eyes).toHaveLength(1);
+    });
+
+    it("rejects damaged links", async () => {
+        const text = await encodeLevel(level);
+        await expect(decodeLevel(text.slice(0, text.length / 2))).rejects.toThrowError(LevelFormatError);
+    });
+});
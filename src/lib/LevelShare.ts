@@ -0,0 +1,76 @@
+import { Level, parseLevelJson, serializeLevel } from "./Level";
+import { LevelFormatError } from "./LevelFormat";
+
+const HASH_PREFIX = '#level=';
+
+// base64url, so it can sit in a URL without escaping
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes)
+        binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function transform(bytes: BufferSource, stream: GenericTransformStream): Promise<Uint8Array> {
+    const result = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+    return new Uint8Array(await result.arrayBuffer());
+}
+
+// the level as compressed, URL-safe text
+export async function encodeLevel(level: Level): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(serializeLevel(level)));
+    return toBase64(await transform(json, new CompressionStream('deflate-raw')));
+}
+
+export async function decodeLevel(text: string): Promise<Level> {
+    let json: string;
+    try {
+        json = new TextDecoder().decode(await transform(fromBase64(text), new DecompressionStream('deflate-raw')));
+    } catch {
+        throw new LevelFormatError('level', 'the link is damaged or incomplete');
+    }
+    return parseLevelJson(json);
+}
+
+export async function shareLink(level: Level): Promise<string> {
+    return location.origin + location.pathname + HASH_PREFIX + await encodeLevel(level);
+}
+
+// the level in a share link's hash, if there is one
+export async function levelFromHash(hash: string): Promise<Level | undefined> {
+    if (!hash.startsWith(HASH_PREFIX))
+        return undefined;
+    return decodeLevel(hash.slice(HASH_PREFIX.length));
+}
+
+export function downloadLevel(fileName: string, level: Level) {
+    const blob = new Blob([JSON.stringify(serializeLevel(level), undefined, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName.endsWith('.json') ? fileName : fileName + '.json';
+    link.click();
+    // some browsers start the download only after click() returns, so the url has to outlive it
+    setTimeout(() => URL.revokeObjectURL(url));
+}
+
+export async function readLevelFile(file: File): Promise<Level> {
+    return parseLevelJson(await file.text());
+}
+
+// resolves with undefined if the picker is cancelled (where the browser tells us)
+export function pickLevelFile(): Promise<File | undefined> {
+    return new Promise(resolve => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,application/json';
+        input.addEventListener('change', () => resolve(input.files?.[0]));
+        input.addEventListener('cancel', () => resolve(undefined));
+        input.click();
+    });
+}
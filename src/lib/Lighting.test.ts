@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { Box, Light } from "./Level";
+import { AMBIENT_LIGHT, lightLevel } from "./Lighting";
+import SpatialGrid from "./SpatialGrid";
+
+describe("Lighting", () => {
+    const wall = new Box({ x: 50, y: -50, w: 20, h: 100 });
+
+    it("lights a level without lights all over", () => {
+        expect(lightLevel({ x: 1000, y: 1000 }, [], [wall])).toBe(1);
+    });
+
+    it("fades out towards a light's radius", () => {
+        const light = new Light({ x: 0, y: 0 });
+        light.radius = 100;
+        light.intensity = 0.8;
+        expect(light.levelAt({ x: 0, y: 0 }, [])).toBeCloseTo(0.8);
+        expect(light.levelAt({ x: 0, y: 50 }, [])).toBeCloseTo(0.4);
+        expect(light.levelAt({ x: 0, y: 100 }, [])).toBe(0);
+
+        expect(lightLevel({ x: 0, y: 50 }, [light], [])).toBeCloseTo(AMBIENT_LIGHT + 0.4);
+        expect(lightLevel({ x: 0, y: 500 }, [light], [])).toBe(AMBIENT_LIGHT);
+    });
+
+    it("leaves shadows behind shapes", () => {
+        const light = new Light({ x: 0, y: 0 });
+        const grid = new SpatialGrid<Box>();
+        grid.update(wall, wall.boundingRect());
+        expect(light.levelAt({ x: 40, y: 0 }, grid)).toBeGreaterThan(0);
+        expect(light.levelAt({ x: 90, y: 0 }, grid)).toBe(0);
+        expect(light.levelAt({ x: 90, y: 0 }, [wall])).toBe(0);
+        expect(light.levelAt({ x: 90, y: 100 }, [wall])).toBeGreaterThan(0);
+    });
+
+    it("gives no light while switched off", () => {
+        const light = new Light({ x: 0, y: 0 });
+        light.on = false;
+        expect(light.levelAt({ x: 10, y: 0 }, [])).toBe(0);
+        expect(lightLevel({ x: 10, y: 0 }, [light], [])).toBe(AMBIENT_LIGHT);
+    });
+
+    it("adds up overlapping lights, up to fully lit", () => {
+        const lights = [new Light({ x: 0, y: 0 }), new Light({ x: 10, y: 0 })];
+        expect(lightLevel({ x: 5, y: 0 }, lights, [])).toBe(1);
+        lights.forEach(light => light.intensity = 0.3);
+        expect(lightLevel({ x: 5, y: 0 }, lights, [])).toBeLessThan(1);
+    });
+});
@@ -0,0 +1,30 @@
+import Canvas, { Point } from "./Canvas";
+import { Light, Occluders } from "./Level";
+
+// how lit anywhere no light reaches is, in a level with lights
+export const AMBIENT_LIGHT = 0.15;
+
+// how lit p is, from 0 (pitch dark) to 1. Levels without any lights are lit all over
+export function lightLevel(p: Point, lights: Light[], shapes: Occluders): number {
+    if (lights.length === 0)
+        return 1;
+
+    return Math.min(lights.reduce((level, light) => level + light.levelAt(p, shapes), AMBIENT_LIGHT), 1);
+}
+
+// darkens everything drawn on canvas so far except where the lights reach. The lights are added up on
+// lightMap, a child canvas of the same size kept between frames, which then multiplies the scene
+export function drawLighting(canvas: Canvas, lightMap: Canvas, lights: Light[], shapes: Occluders) {
+    if (lights.length === 0)
+        return;
+
+    const ambient = Math.round(AMBIENT_LIGHT * 255);
+    lightMap.clear(`rgb(${ambient}, ${ambient}, ${ambient})`);
+    for (const light of lights)
+        light.drawLight(lightMap, shapes);
+
+    canvas.ctx.save();
+    canvas.ctx.globalCompositeOperation = 'multiply';
+    canvas.drawCanvas(lightMap);
+    canvas.ctx.restore();
+}
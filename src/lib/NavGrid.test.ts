@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { Point } from "./Canvas";
+import { LineSegment } from "./Geometry";
+import { Box, Circle } from "./Level";
+import NavGrid from "./NavGrid";
+
+const crosses = (path: Point[], box: Box) =>
+    path.slice(1).some((p, i) => box.lineIntersections(new LineSegment(path[i], p)) !== undefined || box.contains(p));
+
+describe("NavGrid", () => {
+    it("keeps agents clear of shapes", () => {
+        const nav = new NavGrid(5);
+        const circle = new Circle({ x: 0, y: 0 });
+        circle.radius = 20;
+        nav.update(circle);
+
+        expect(nav.blocked({ x: 0, y: 0 })).toBe(true);
+        expect(nav.blocked({ x: 20, y: 0 })).toBe(true);
+        expect(nav.blocked({ x: 30, y: 0 })).toBe(false);
+    });
+
+    it("goes straight when nothing is in the way", () => {
+        const nav = new NavGrid(5);
+        nav.update(new Box({ x: 100, y: 100, w: 10, h: 10 }));
+        expect(nav.findPath({ x: 0, y: 0 }, { x: 53, y: 27 })).toEqual([{ x: 0, y: 0 }, { x: 53, y: 27 }]);
+    });
+
+    it("finds a smoothed way around a wall", () => {
+        const nav = new NavGrid(5);
+        const wall = new Box({ x: 40, y: -50, w: 20, h: 100 });
+        nav.update(wall);
+
+        const path = nav.findPath({ x: 0, y: 0 }, { x: 100, y: 0 })!;
+        expect(path).toBeDefined();
+        expect(path[0]).toEqual({ x: 0, y: 0 });
+        expect(path[path.length - 1]).toEqual({ x: 100, y: 0 });
+        expect(path.length).toBeLessThanOrEqual(4);
+        expect(crosses(path, wall)).toBe(false);
+    });
+
+    it("keeps up as shapes move and go", () => {
+        const nav = new NavGrid(5);
+        const box = new Box({ x: 0, y: 0, w: 20, h: 20 });
+        nav.update(box);
+        expect(nav.blocked({ x: 10, y: 10 })).toBe(true);
+
+        box.origin = { x: 100, y: 100 };
+        nav.update(box);
+        expect(nav.blocked({ x: 10, y: 10 })).toBe(false);
+        expect(nav.blocked({ x: 110, y: 110 })).toBe(true);
+
+        nav.remove(box);
+        expect(nav.blockedPoints({ x: 0, y: 0, w: 200, h: 200 })).toEqual([]);
+    });
+
+    it("gives up when the goal can't be reached", () => {
+        const nav = new NavGrid(5);
+        nav.maxSearch = 2000;
+        nav.sync([
+            new Box({ x: -50, y: -50, w: 100, h: 10 }),
+            new Box({ x: -50, y: 40, w: 100, h: 10 }),
+            new Box({ x: -50, y: -50, w: 10, h: 100 }),
+            new Box({ x: 40, y: -50, w: 10, h: 100 }),
+        ]);
+        expect(nav.findPath({ x: 200, y: 0 }, { x: 0, y: 0 })).toBeUndefined();
+        expect(nav.findPath({ x: 200, y: 0 }, { x: 0, y: 45 })).toBeUndefined();
+    });
+});
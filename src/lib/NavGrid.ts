@@ -0,0 +1,229 @@
+import { Point, Rect } from "./Canvas";
+import { GRID_STEP, grow, lerp, LineSegment, vecLen } from "./Geometry";
+import { distanceToShape, Shape } from "./Level";
+import SpatialGrid from "./SpatialGrid";
+
+type Node = { x: number, y: number; }; // in grid units
+
+const nodeKey = (n: Node) => `${n.x},${n.y}`;
+
+const NEIGHBOURS: Node[] = [
+    { x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 },
+    { x: 1, y: 1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: -1, y: -1 },
+];
+
+// octile distance, exact on an 8-connected grid with no walls in the way
+const heuristic = (a: Node, b: Node): number => {
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+};
+
+// binary min-heap of nodes by their estimated total cost
+class OpenSet {
+    #heap: { node: Node, f: number; }[] = [];
+
+    public get size(): number { return this.#heap.length; }
+
+    push(node: Node, f: number) {
+        const heap = this.#heap;
+        heap.push({ node, f });
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (heap[parent].f <= heap[i].f)
+                break;
+            [heap[parent], heap[i]] = [heap[i], heap[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): Node {
+        const heap = this.#heap;
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length > 0) {
+            heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+                if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+                if (smallest === i)
+                    break;
+                [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+                i = smallest;
+            }
+        }
+        return top.node;
+    }
+}
+
+// walkable points on the grid, kept far enough from every shape for an agent of the given radius to
+// stand on. Shapes are added and updated one at a time, so an edit only re-checks the nodes around it.
+export default class NavGrid {
+    readonly radius: number;
+    readonly step: number;
+    maxSearch = 20000; // nodes A* will expand before giving up on a path
+
+    #shapes = new SpatialGrid<Shape>();
+    #nodesOf = new Map<Shape, string[]>();
+    #blocked = new Map<string, number>(); // how many shapes block each node
+    #revision = 0;
+
+    // changes whenever the grid does, so paths can be cached until then
+    public get revision(): number { return this.#revision; }
+
+    constructor(radius: number, step = GRID_STEP) {
+        this.radius = radius;
+        this.step = step;
+    }
+
+    #nodesIn(rect: Rect): Node[] {
+        const nodes = [];
+        for (let y = Math.ceil(rect.y / this.step); y * this.step <= rect.y + rect.h; y++)
+            for (let x = Math.ceil(rect.x / this.step); x * this.step <= rect.x + rect.w; x++)
+                nodes.push({ x, y });
+        return nodes;
+    }
+
+    #toPoint(n: Node): Point {
+        return { x: n.x * this.step, y: n.y * this.step };
+    }
+
+    #toNode(p: Point): Node {
+        return { x: Math.round(p.x / this.step), y: Math.round(p.y / this.step) };
+    }
+
+    #isBlocked(n: Node): boolean {
+        return this.#blocked.has(nodeKey(n));
+    }
+
+    // re-checks the nodes around a new or changed shape
+    update(shape: Shape) {
+        this.remove(shape);
+
+        const nodes: string[] = [];
+        for (const node of this.#nodesIn(grow(shape.boundingRect(), this.radius * 2))) {
+            if (distanceToShape(shape, this.#toPoint(node)) < this.radius)
+                nodes.push(nodeKey(node));
+        }
+        for (const key of nodes)
+            this.#blocked.set(key, (this.#blocked.get(key) ?? 0) + 1);
+        this.#nodesOf.set(shape, nodes);
+        this.#shapes.update(shape, shape.boundingRect());
+        this.#revision++;
+    }
+
+    remove(shape: Shape) {
+        for (const key of this.#nodesOf.get(shape) ?? []) {
+            const count = this.#blocked.get(key)! - 1;
+            if (count === 0)
+                this.#blocked.delete(key);
+            else
+                this.#blocked.set(key, count);
+        }
+        this.#nodesOf.delete(shape);
+        this.#shapes.remove(shape);
+        this.#revision++;
+    }
+
+    // rebuilds from scratch
+    sync(shapes: Iterable<Shape>) {
+        this.#nodesOf.clear();
+        this.#blocked.clear();
+        this.#shapes.clear();
+        this.#revision++;
+        for (const shape of shapes)
+            this.update(shape);
+    }
+
+    // true if the grid point nearest p is too close to a shape
+    blocked(p: Point): boolean {
+        return this.#isBlocked(this.#toNode(p));
+    }
+
+    // blocked grid points within rect, for drawing
+    blockedPoints(rect: Rect): Point[] {
+        return this.#nodesIn(rect).filter(node => this.#isBlocked(node)).map(node => this.#toPoint(node));
+    }
+
+    // true if an agent can move straight from a to b without touching a shape
+    clear(a: Point, b: Point): boolean {
+        const near = this.#shapes.query(grow(new LineSegment(a, b).boundingRect(), this.radius * 2));
+        const samples = Math.max(1, Math.ceil(vecLen(a, b) / (this.step / 4)));
+        for (let i = 0; i <= samples; i++) {
+            const p = lerp(a, b, i / samples);
+            if (near.some(shape => distanceToShape(shape, p) < this.radius))
+                return false;
+        }
+        return true;
+    }
+
+    // A* over the grid, then smoothed. Undefined if there's no way through (or it's too far to find)
+    findPath(from: Point, to: Point): Point[] | undefined {
+        const start = this.#toNode(from);
+        const goal = this.#toNode(to);
+        if (this.#isBlocked(goal))
+            return undefined;
+
+        const cameFrom = new Map<string, Node>();
+        const cost = new Map<string, number>([[nodeKey(start), 0]]);
+        const closed = new Set<string>();
+        const open = new OpenSet();
+        open.push(start, heuristic(start, goal));
+
+        while (open.size > 0 && closed.size < this.maxSearch) {
+            const node = open.pop();
+            const key = nodeKey(node);
+            if (closed.has(key))
+                continue;
+            closed.add(key);
+
+            if (node.x === goal.x && node.y === goal.y) {
+                const nodes = [node];
+                for (let prev = cameFrom.get(key); prev; prev = cameFrom.get(nodeKey(prev)))
+                    nodes.unshift(prev);
+                // the ends are the real start and goal, rather than the grid points nearest them
+                return this.smooth([from, ...nodes.slice(1, -1).map(n => this.#toPoint(n)), to]);
+            }
+
+            for (const d of NEIGHBOURS) {
+                const next = { x: node.x + d.x, y: node.y + d.y };
+                if (this.#isBlocked(next))
+                    continue;
+                // no cutting corners past a blocked node
+                if (d.x !== 0 && d.y !== 0 && (this.#isBlocked({ x: node.x + d.x, y: node.y }) || this.#isBlocked({ x: node.x, y: node.y + d.y })))
+                    continue;
+
+                const nextKey = nodeKey(next);
+                const nextCost = cost.get(key)! + (d.x !== 0 && d.y !== 0 ? Math.SQRT2 : 1);
+                if (nextCost < (cost.get(nextKey) ?? Infinity)) {
+                    cost.set(nextKey, nextCost);
+                    cameFrom.set(nextKey, node);
+                    open.push(next, nextCost + heuristic(next, goal));
+                }
+            }
+        }
+        return undefined;
+    }
+
+    // drops points that can be skipped by walking straight to a later one
+    smooth(path: Point[]): Point[] {
+        if (path.length <= 2)
+            return path;
+
+        const smoothed = [path[0]];
+        let i = 0;
+        while (i < path.length - 1) {
+            let j = path.length - 1;
+            while (j > i + 1 && !this.clear(path[i], path[j]))
+                j--;
+            smoothed.push(path[j]);
+            i = j;
+        }
+        return smoothed;
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { Box, Eye } from "./Level";
+import Noise, { WALL_DAMPING } from "./Noise";
+import SpatialGrid from "./SpatialGrid";
+
+describe("Noise", () => {
+    const wall = new Box({ x: 100, y: -50, w: 20, h: 100 });
+
+    it("carries its full range in the open", () => {
+        const noise = new Noise('thrown', { x: 0, y: 0 }, 200);
+        expect(noise.rangeTowards({ x: 0, y: 150 }, [wall])).toBe(200);
+        expect(noise.reaches({ x: 0, y: 150 }, [wall])).toBe(true);
+        expect(noise.reaches({ x: 0, y: 250 }, [wall])).toBe(false);
+    });
+
+    it("is damped by each wall in the way", () => {
+        const noise = new Noise('thrown', { x: 0, y: 0 }, 200);
+        const behind = { x: 150, y: 0 };
+        expect(noise.wallsTo(behind, [wall])).toEqual([wall]);
+        expect(noise.rangeTowards(behind, [wall])).toBe(200 * WALL_DAMPING);
+        expect(noise.reaches(behind, [wall])).toBe(false);
+
+        const loud = new Noise('thrown', { x: 0, y: 0 }, 300);
+        expect(loud.reaches({ x: 130, y: 0 }, [wall])).toBe(true);
+        expect(loud.reaches({ x: 130, y: 0 }, [wall, new Box({ x: 125, y: -50, w: 2, h: 100 })])).toBe(false);
+    });
+
+    it("finds the same walls through a spatial index", () => {
+        const grid = new SpatialGrid<Box>(50);
+        grid.update(wall, wall.boundingRect());
+        const noise = new Noise('door', { x: 0, y: 0 });
+        expect(noise.wallsTo({ x: 150, y: 10 }, grid)).toEqual([wall]);
+        expect(noise.wallsTo({ x: 150, y: 100 }, grid)).toEqual([]);
+    });
+
+    it("finds the eyes that hear it", () => {
+        const near = new Eye({ x: 50, y: 0 });
+        const muffled = new Eye({ x: 150, y: 0 });
+        const noise = new Noise('thrown', { x: 0, y: 0 }, 200);
+        expect(noise.listeners([near, muffled], [wall])).toEqual([near]);
+    });
+});
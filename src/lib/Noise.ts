@@ -0,0 +1,66 @@
+import Canvas, { Point } from "./Canvas";
+import { LineSegment, vecLen } from "./Geometry";
+import { Eye, Occluders, Shape } from "./Level";
+import SpatialGrid from "./SpatialGrid";
+
+export type NoiseKind = 'running' | 'thrown' | 'door';
+
+// how far (px) each kind of noise carries in the open
+export const LOUDNESS: { [kind in NoiseKind]: number } = {
+    running: 140,
+    thrown: 220,
+    door: 180,
+};
+
+// the fraction of its range a noise keeps after passing through each wall
+export const WALL_DAMPING = 0.5;
+
+// seconds a noise's ring takes to spread out and fade
+export const RING_TIME = 0.8;
+
+export default class Noise {
+    kind: NoiseKind;
+    pos: Point;
+    loudness: number; // range in the open, px
+    age = 0; // seconds since the noise was made
+
+    constructor(kind: NoiseKind, pos: Point, loudness = LOUDNESS[kind]) {
+        this.kind = kind;
+        this.pos = Object.assign({}, pos);
+        this.loudness = loudness;
+    }
+
+    public get faded(): boolean { return this.age >= RING_TIME; }
+
+    // shapes the sound passes through on its way to p
+    wallsTo(p: Point, shapes: Occluders): Shape[] {
+        const path = new LineSegment(this.pos, p);
+        const candidates = shapes instanceof SpatialGrid ? shapes.query(path.boundingRect()) : shapes;
+        return candidates.filter(shape => path.intersectsRect(shape.boundingRect()) && shape.lineIntersections(path) !== undefined);
+    }
+
+    // how far the noise carries towards p, once damped by the walls in between
+    rangeTowards(p: Point, shapes: Occluders): number {
+        return this.loudness * WALL_DAMPING ** this.wallsTo(p, shapes).length;
+    }
+
+    reaches(p: Point, shapes: Occluders): boolean {
+        const dist = vecLen(this.pos, p);
+        return dist <= this.loudness && dist <= this.rangeTowards(p, shapes);
+    }
+
+    // eyes close enough to hear the noise
+    listeners(eyes: Eye[], shapes: Occluders): Eye[] {
+        return eyes.filter(eye => this.reaches(eye.pos, shapes));
+    }
+
+    // a ring spreading out to the noise's open range, fading as it goes
+    draw(canvas: Canvas, colour = '#fa0') {
+        const t = Math.min(this.age / RING_TIME, 1);
+        canvas.ctx.globalAlpha = 1 - t;
+        canvas.ctx.strokeStyle = colour;
+        canvas.ctx.lineWidth = 2;
+        canvas.strokeCircle(this.pos, Math.max(this.loudness * t, 1));
+        canvas.ctx.globalAlpha = 1;
+    }
+}
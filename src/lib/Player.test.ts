@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { vecLen } from "./Geometry";
+import { Box, Circle, Polygon } from "./Level";
+import Player, { moveCircle, PLAYER_RADIUS, PLAYER_SPEEDS, pushOut } from "./Player";
+import SpatialGrid from "./SpatialGrid";
+
+describe("Player", () => {
+    const wall = new Box({ x: 0, y: 0, w: 100, h: 20 });
+
+    it("is pushed out to just touch a box, circle or polygon", () => {
+        expect(pushOut({ x: 50, y: 24 }, 6, [wall])).toEqual({ x: 50, y: 26 });
+        expect(pushOut({ x: 50, y: 18 }, 6, [wall])).toEqual({ x: 50, y: 26 });
+
+        const pillar = new Circle({ x: 0, y: 0 });
+        pillar.radius = 10;
+        const p = pushOut({ x: 12, y: 0 }, 6, [pillar]);
+        expect(p.x).toBeCloseTo(16);
+        expect(p.y).toBeCloseTo(0);
+
+        const triangle = new Polygon({ x: 0, y: 0 });
+        triangle.corners.push({ x: 40, y: 0 }, { x: 0, y: 40 });
+        const q = pushOut({ x: 2, y: -3 }, 6, [triangle]);
+        expect(q.x).toBeCloseTo(2);
+        expect(q.y).toBeCloseTo(-6);
+    });
+
+    it("passes over a polygon with no corners", () => {
+        const dot = new Polygon({ x: 50, y: 50 });
+        dot.corners = [];
+        expect(pushOut({ x: 52, y: 50 }, 6, [dot])).toEqual({ x: 52, y: 50 });
+    });
+
+    it("slides along a wall it runs into at an angle", () => {
+        const p = moveCircle({ x: 10, y: 30 }, { x: 20, y: -20 }, 6, [wall]);
+        expect(p.x).toBeCloseTo(30);
+        expect(p.y).toBeCloseTo(26);
+    });
+
+    it("can't get through a thin wall however fast it goes", () => {
+        const thin = new Box({ x: 50, y: -50, w: 1, h: 100 });
+        const grid = new SpatialGrid<Box>();
+        grid.update(thin, thin.boundingRect());
+        const p = moveCircle({ x: 40, y: 0 }, { x: 100, y: 0 }, 6, grid);
+        expect(p.x).toBeCloseTo(44);
+    });
+
+    it("moves at the speed of its gait, the same whichever way it heads", () => {
+        const player = new Player({ x: 0, y: 200 });
+        player.heading = { x: 1, y: 1 };
+        expect(player.move(1, [wall])).toBeCloseTo(PLAYER_SPEEDS.walk);
+
+        player.gait = 'sneak';
+        player.heading = { x: 0, y: -1 };
+        expect(player.move(1, [wall])).toBeCloseTo(PLAYER_SPEEDS.sneak);
+        expect(vecLen(player.prevPos, player.pos)).toBeCloseTo(PLAYER_SPEEDS.sneak);
+
+        player.heading = { x: 0, y: 0 };
+        expect(player.move(1, [wall])).toBe(0);
+    });
+
+    it("stops at walls in its way", () => {
+        const player = new Player({ x: 50, y: 40 });
+        player.gait = 'run';
+        player.heading = { x: 0, y: -1 };
+        player.move(1, [wall]);
+        expect(player.pos.y).toBeCloseTo(20 + PLAYER_RADIUS);
+    });
+});
@@ -0,0 +1,103 @@
+import Canvas, { Point, Rect } from "./Canvas";
+import { grow, lerp, LineSegment, unitVector, vecLen } from "./Geometry";
+import { nearestOutlinePoint, Occluders, Shape } from "./Level";
+import SpatialGrid from "./SpatialGrid";
+
+export const PLAYER_RADIUS = 6;
+
+export type Gait = 'sneak' | 'walk' | 'run';
+
+// px/s
+export const PLAYER_SPEEDS: { [gait in Gait]: number } = {
+    sneak: 60,
+    walk: 120,
+    run: 200,
+};
+
+// how much easier each gait makes the player to notice, scaling how fast eyes' detection meters fill
+export const VISIBILITY: { [gait in Gait]: number } = {
+    sneak: 0.5,
+    walk: 1,
+    run: 1.5,
+};
+
+// a few passes settle a circle wedged into a corner between two shapes
+const PUSH_PASSES = 4;
+
+const centre = (rect: Rect): Point => ({ x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 });
+
+// where a circle at p ends up once it's pushed out of every shape it overlaps, so it just touches them.
+// Pushing straight out of a wall keeps the part of a move that runs along it, which is what lets the circle slide
+export function pushOut(p: Point, radius: number, shapes: Shape[]): Point {
+    let pos = Object.assign({}, p);
+    for (let pass = 0; pass < PUSH_PASSES; pass++) {
+        let pushed = false;
+        for (const shape of shapes) {
+            const nearest = nearestOutlinePoint(shape, pos);
+            // a polygon with no corners left has no outline, so there's nothing to bump into
+            if (nearest === undefined)
+                continue;
+            const inside = shape.contains(pos);
+            if (!inside && vecLen(nearest, pos) >= radius)
+                continue;
+
+            // right on the outline there's no telling which way is out, so head away from the middle of the shape
+            const out = (inside ? unitVector(pos, nearest) : unitVector(nearest, pos)) ?? unitVector(centre(shape.boundingRect()), pos);
+            if (out === undefined)
+                continue;
+
+            pos = { x: nearest.x + out.x * radius, y: nearest.y + out.y * radius };
+            pushed = true;
+        }
+        if (!pushed)
+            break;
+    }
+    return pos;
+}
+
+// moves a circle by delta, sliding along any shapes in the way. The move is split into steps of
+// no more than half the radius so the circle can't jump clean through a thin wall
+export function moveCircle(from: Point, delta: Point, radius: number, shapes: Occluders): Point {
+    const to = { x: from.x + delta.x, y: from.y + delta.y };
+    const near = shapes instanceof SpatialGrid ? shapes.query(grow(new LineSegment(from, to).boundingRect(), radius * 2)) : shapes;
+    const steps = Math.max(1, Math.ceil(vecLen(from, to) / (radius / 2)));
+
+    let pos = Object.assign({}, from);
+    for (let i = 0; i < steps; i++)
+        pos = pushOut({ x: pos.x + delta.x / steps, y: pos.y + delta.y / steps }, radius, near);
+    return pos;
+}
+
+export default class Player {
+    pos: Point;
+    prevPos: Point; // position at the previous tick, for interpolation
+    heading: Point = { x: 0, y: 0 }; // the way the movement keys point, not necessarily of unit length
+    gait: Gait = 'walk';
+
+    constructor(p: Point) {
+        this.pos = Object.assign({}, p);
+        this.prevPos = Object.assign({}, p);
+    }
+
+    // returns how far the player moved
+    move(dt: number, shapes: Occluders): number {
+        this.prevPos = Object.assign({}, this.pos);
+        const dir = unitVector({ x: 0, y: 0 }, this.heading);
+        if (dir === undefined)
+            return 0;
+
+        const step = PLAYER_SPEEDS[this.gait] * dt;
+        const next = moveCircle(this.pos, { x: dir.x * step, y: dir.y * step }, PLAYER_RADIUS, shapes);
+        const moved = vecLen(this.pos, next);
+        this.pos = next;
+        return moved;
+    }
+
+    draw(canvas: Canvas, alpha: number) {
+        const pos = lerp(this.prevPos, this.pos, alpha);
+        canvas.fillCircle(pos, PLAYER_RADIUS, '#36c');
+        canvas.ctx.strokeStyle = '#124';
+        canvas.ctx.lineWidth = 2;
+        canvas.strokeCircle(pos, PLAYER_RADIUS - 1);
+    }
+}
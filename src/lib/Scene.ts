@@ -1,15 +1,28 @@
 import Canvas, { Point } from "../lib/Canvas";
+import SceneManager from "./SceneManager";
 
 export default abstract class Scene {
     canvas: Canvas;
     audio?: HTMLAudioElement;
+    manager?: SceneManager;
 
     constructor(canvas: Canvas) {
         this.canvas = canvas;
         this.canvas.canvas.style.cursor = 'default';
     }
 
-    abstract draw(timestamp: DOMHighResTimeStamp): void;
+    // alpha is how far (0..1) the frame is between the last two update ticks
+    abstract draw(timestamp: DOMHighResTimeStamp, alpha: number): void;
+
+    // optional fixed-tick simulation step, dt in seconds
+    update?(dt: number): void;
+
+    // optional lifecycle hooks, called by the SceneManager
+    enter?(): void;     // pushed onto the stack
+    exit?(): void;      // popped off the stack
+    pause?(): void;     // another scene was pushed on top
+    resume?(): void;    // the scene on top was popped
+    onResize?(): void;
 
     // optional mouse handlers
     onPointerMove?(ev: PointerEvent, p: Point): void;
@@ -17,6 +30,9 @@ export default abstract class Scene {
     onPointerDown?(ev: PointerEvent, p: Point): void;
     onWheel?(ev: WheelEvent, p: Point): void;
 
+    // optional drag and drop handler, for files dropped onto the canvas
+    onDrop?(ev: DragEvent, p: Point): void;
+
     // optional key handlers
     onKeyUp?(ev: KeyboardEvent): void;
     onKeyDown?(ev: KeyboardEvent): void;
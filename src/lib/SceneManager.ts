@@ -0,0 +1,118 @@
+import { MainCanvas } from "./Canvas";
+import Scene from "./Scene";
+
+type Transition = {
+    action: () => void;
+    fade: boolean;
+    start?: DOMHighResTimeStamp;
+    switched: boolean;
+};
+
+export default class SceneManager {
+    canvas: MainCanvas;
+    fadeDuration = 400; // ms, fade out + fade in
+
+    #stack: Scene[] = [];
+    #transitions: Transition[] = [];
+
+    public get current(): Scene | undefined { return this.#stack[this.#stack.length - 1]; }
+    public get transitioning(): boolean { return this.#transitions.length > 0; }
+
+    constructor(canvas: MainCanvas) {
+        this.canvas = canvas;
+
+        // input is only forwarded to the top scene, and not at all mid-transition
+        canvas.pointerMoveHandler = (ev, p) => this.#inputScene()?.onPointerMove?.(ev, p);
+        canvas.pointerUpHandler = (ev, p) => this.#inputScene()?.onPointerUp?.(ev, p);
+        canvas.pointerDownHandler = (ev, p) => this.#inputScene()?.onPointerDown?.(ev, p);
+        canvas.keyDownHandler = ev => this.#inputScene()?.onKeyDown?.(ev);
+        canvas.keyUpHandler = ev => this.#inputScene()?.onKeyUp?.(ev);
+        canvas.wheelHandler = (ev, p) => this.#inputScene()?.onWheel?.(ev, p);
+        canvas.dropHandler = (ev, p) => this.#inputScene()?.onDrop?.(ev, p);
+
+        // every scene on the stack needs to know, not just the visible one
+        canvas.onResize = () => this.#stack.forEach(scene => scene.onResize?.());
+    }
+
+    #inputScene(): Scene | undefined {
+        return this.transitioning ? undefined : this.current;
+    }
+
+    push(scene: Scene, fade = false) {
+        this.#queue(() => {
+            this.current?.pause?.();
+            this.#stack.push(scene);
+            scene.manager = this;
+            scene.enter?.();
+        }, fade);
+    }
+
+    pop(fade = false) {
+        this.#queue(() => {
+            // the root scene is never popped
+            if (this.#stack.length <= 1)
+                return;
+
+            const scene = this.#stack.pop()!;
+            scene.exit?.();
+            scene.manager = undefined;
+            this.current?.resume?.();
+        }, fade);
+    }
+
+    replace(scene: Scene, fade = false) {
+        this.#queue(() => {
+            const oldScene = this.#stack.pop();
+            oldScene?.exit?.();
+            if (oldScene) oldScene.manager = undefined;
+
+            this.#stack.push(scene);
+            scene.manager = this;
+            scene.enter?.();
+        }, fade);
+    }
+
+    #queue(action: () => void, fade: boolean) {
+        if (!fade && !this.transitioning) {
+            action();
+            return;
+        }
+
+        // changes requested mid-transition are applied in order once it completes
+        this.#transitions.push({ action, fade, switched: false });
+    }
+
+    update(dt: number) {
+        // the simulation is held still while scenes fade in or out
+        if (!this.transitioning)
+            this.current?.update?.(dt);
+    }
+
+    draw(timestamp: DOMHighResTimeStamp, alpha: number) {
+        const transition = this.#transitions[0];
+        if (!transition) {
+            this.current?.draw(timestamp, alpha);
+            return;
+        }
+
+        transition.start ??= timestamp;
+        const t = (transition.fade && this.fadeDuration > 0)
+            ? (timestamp - transition.start) / this.fadeDuration
+            : 1;
+
+        // swap scenes when the screen is fully faded out
+        if (t >= 0.5 && !transition.switched) {
+            transition.action();
+            transition.switched = true;
+        }
+
+        if (t >= 1) {
+            this.#transitions.shift();
+            this.draw(timestamp, alpha);
+            return;
+        }
+
+        this.canvas.clear('#000');
+        this.canvas.setGlobalAlpha(Math.abs(1 - 2 * t), () => this.current?.draw(timestamp, alpha));
+    }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import SpatialGrid from "./SpatialGrid";
+
+describe("SpatialGrid", () => {
+    it("finds items overlapping a rect, in insertion order", () => {
+        const grid = new SpatialGrid<string>(10);
+        grid.update('b', { x: 0, y: 0, w: 5, h: 5 });
+        grid.update('a', { x: 8, y: 8, w: 20, h: 4 });
+        grid.update('far', { x: 500, y: 500, w: 5, h: 5 });
+
+        expect(grid.query({ x: 0, y: 0, w: 10, h: 10 })).toEqual(['b', 'a']);
+        expect(grid.query({ x: 20, y: 9, w: 1, h: 1 })).toEqual(['a']);
+        // same cell, but no overlap
+        expect(grid.query({ x: 6, y: 6, w: 1, h: 1 })).toEqual([]);
+    });
+
+    it("keeps up with moves and removals", () => {
+        const grid = new SpatialGrid<string>(10);
+        grid.update('a', { x: 0, y: 0, w: 5, h: 5 });
+        grid.update('b', { x: 2, y: 2, w: 5, h: 5 });
+        grid.update('a', { x: 100, y: 100, w: 5, h: 5 });
+
+        expect(grid.query({ x: 0, y: 0, w: 5, h: 5 })).toEqual(['b']);
+        expect(grid.query({ x: 95, y: 95, w: 10, h: 10 })).toEqual(['a']);
+        expect(grid.rectOf('a')).toEqual({ x: 100, y: 100, w: 5, h: 5 });
+
+        grid.remove('a');
+        expect(grid.rectOf('a')).toBeUndefined();
+        expect(grid.query({ x: 95, y: 95, w: 10, h: 10 })).toEqual([]);
+        expect(grid.size).toBe(1);
+    });
+
+    it("syncs with a list of items", () => {
+        const rects: { [name: string]: { x: number, y: number, w: number, h: number; }; } = {
+            a: { x: 0, y: 0, w: 1, h: 1 },
+            b: { x: 50, y: 50, w: 1, h: 1 },
+        };
+        const grid = new SpatialGrid<string>(10);
+        grid.sync(['a', 'b'], name => rects[name]);
+        rects.a = { x: 50, y: 50, w: 1, h: 1 };
+        grid.sync(['a'], name => rects[name]);
+
+        expect(grid.has('b')).toBe(false);
+        expect(grid.query({ x: 49, y: 49, w: 3, h: 3 })).toEqual(['a']);
+    });
+
+    it("walks the cells along a segment in order", () => {
+        const grid = new SpatialGrid<string>(10);
+        grid.update('near', { x: 12, y: 2, w: 1, h: 1 });
+        grid.update('far', { x: 42, y: 5, w: 1, h: 1 });
+        grid.update('off the line', { x: 25, y: 50, w: 1, h: 1 });
+
+        const cells = [...grid.traverse({ start: { x: 5, y: 5 }, end: { x: 45, y: 5 } })];
+        expect(cells.map(cell => cell.exit)).toEqual([0.125, 0.375, 0.625, 0.875, 1]);
+        expect(cells.flatMap(cell => [...cell.items])).toEqual(['near', 'far']);
+    });
+
+    it("handles items and queries spanning many cells", () => {
+        const grid = new SpatialGrid<string>(10);
+        grid.maxCells = 4;
+        grid.update('huge', { x: -1000, y: -1000, w: 2000, h: 2000 });
+        grid.update('small', { x: 0, y: 0, w: 1, h: 1 });
+
+        expect(grid.query({ x: 500, y: 500, w: 1, h: 1 })).toEqual(['huge']);
+        expect(grid.query({ x: -50, y: -50, w: 100, h: 100 })).toEqual(['huge', 'small']);
+    });
+});
@@ -0,0 +1,162 @@
+import { Point, Rect } from "./Canvas";
+import { rectsOverlap } from "./Geometry";
+
+type Entry = {
+    rect: Rect;
+    order: number; // queries return items in the order they were first inserted
+    cells: string[];
+};
+
+// broadphase index of items by their bounding rects, bucketed into a uniform grid
+export default class SpatialGrid<T> {
+    readonly cellSize: number;
+    // items spanning more cells than this are kept aside and checked on every query
+    maxCells = 256;
+
+    #cells = new Map<string, Set<T>>();
+    #large = new Set<T>();
+    #entries = new Map<T, Entry>();
+    #nextOrder = 0;
+
+    public get size(): number { return this.#entries.size; }
+
+    constructor(cellSize = 100) {
+        this.cellSize = cellSize;
+    }
+
+    #cellKeys(rect: Rect): string[] {
+        const x1 = Math.floor(rect.x / this.cellSize);
+        const y1 = Math.floor(rect.y / this.cellSize);
+        const x2 = Math.floor((rect.x + rect.w) / this.cellSize);
+        const y2 = Math.floor((rect.y + rect.h) / this.cellSize);
+        if ((x2 - x1 + 1) * (y2 - y1 + 1) > this.maxCells)
+            return [];
+
+        const keys = [];
+        for (let y = y1; y <= y2; y++)
+            for (let x = x1; x <= x2; x++)
+                keys.push(`${x},${y}`);
+        return keys;
+    }
+
+    has(item: T): boolean {
+        return this.#entries.has(item);
+    }
+
+    // the rect the item was last indexed with
+    rectOf(item: T): Rect | undefined {
+        const rect = this.#entries.get(item)?.rect;
+        return rect && Object.assign({}, rect);
+    }
+
+    items(): IterableIterator<T> {
+        return this.#entries.keys();
+    }
+
+    // inserts the item, or moves it if it's already indexed
+    update(item: T, rect: Rect) {
+        const entry = this.#entries.get(item);
+        if (entry && entry.rect.x === rect.x && entry.rect.y === rect.y && entry.rect.w === rect.w && entry.rect.h === rect.h)
+            return;
+
+        const order = entry?.order ?? this.#nextOrder++;
+        this.remove(item);
+
+        const cells = this.#cellKeys(rect);
+        if (cells.length === 0)
+            this.#large.add(item);
+        for (const key of cells) {
+            let cell = this.#cells.get(key);
+            if (!cell) {
+                cell = new Set();
+                this.#cells.set(key, cell);
+            }
+            cell.add(item);
+        }
+        this.#entries.set(item, { rect: Object.assign({}, rect), order, cells });
+    }
+
+    remove(item: T) {
+        const entry = this.#entries.get(item);
+        if (!entry)
+            return;
+
+        this.#large.delete(item);
+        for (const key of entry.cells) {
+            const cell = this.#cells.get(key)!;
+            cell.delete(item);
+            if (cell.size === 0)
+                this.#cells.delete(key);
+        }
+        this.#entries.delete(item);
+    }
+
+    clear() {
+        this.#cells.clear();
+        this.#large.clear();
+        this.#entries.clear();
+    }
+
+    // re-indexes items whose rect has changed, and drops any that aren't in items any more
+    sync(items: Iterable<T>, rectOf: (item: T) => Rect) {
+        const current = new Set(items);
+        for (const item of [...this.#entries.keys()]) {
+            if (!current.has(item))
+                this.remove(item);
+        }
+        for (const item of current)
+            this.update(item, rectOf(item));
+    }
+
+    // the cells a segment passes through, in order from its start, with how far along the segment (0..1) each one is
+    // left. Items spanning many cells come first, with an exit of 0. Items may be repeated across cells.
+    *traverse(segment: { start: Point, end: Point; }): Generator<{ items: Iterable<T>, exit: number; }> {
+        if (this.#large.size > 0)
+            yield { items: this.#large, exit: 0 };
+
+        // http://www.cse.yorku.ca/~amana/research/grid.pdf
+        const { start, end } = segment;
+        const d = { x: end.x - start.x, y: end.y - start.y };
+        let x = Math.floor(start.x / this.cellSize);
+        let y = Math.floor(start.y / this.cellSize);
+        const step = { x: Math.sign(d.x), y: Math.sign(d.y) };
+        const tDelta = { x: Math.abs(this.cellSize / d.x), y: Math.abs(this.cellSize / d.y) };
+        const tMax = {
+            x: d.x === 0 ? Infinity : ((x + (d.x > 0 ? 1 : 0)) * this.cellSize - start.x) / d.x,
+            y: d.y === 0 ? Infinity : ((y + (d.y > 0 ? 1 : 0)) * this.cellSize - start.y) / d.y,
+        };
+
+        const cellCount = Math.abs(Math.floor(end.x / this.cellSize) - x) + Math.abs(Math.floor(end.y / this.cellSize) - y) + 1;
+        for (let i = 0; i < cellCount; i++) {
+            const exit = Math.min(tMax.x, tMax.y, 1);
+            yield { items: this.#cells.get(`${x},${y}`) ?? [], exit };
+
+            if (tMax.x < tMax.y) {
+                x += step.x;
+                tMax.x += tDelta.x;
+            } else {
+                y += step.y;
+                tMax.y += tDelta.y;
+            }
+        }
+    }
+
+    // items whose rect overlaps rect
+    query(rect: Rect): T[] {
+        const found = new Set<T>(this.#large);
+        const cells = this.#cellKeys(rect);
+        if (cells.length === 0) {
+            // querying most of the world, cheaper to look at everything
+            for (const item of this.#entries.keys())
+                found.add(item);
+        }
+        for (const key of cells) {
+            for (const item of this.#cells.get(key) ?? [])
+                found.add(item);
+        }
+
+        return [...found]
+            .filter(item => rectsOverlap(this.#entries.get(item)!.rect, rect))
+            .sort((a, b) => this.#entries.get(a)!.order - this.#entries.get(b)!.order);
+    }
+}
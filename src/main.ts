@@ -1,8 +1,14 @@
 import './style.css';
 import { MainCanvas } from './lib/Canvas';
+import GameLoop from './lib/GameLoop';
+import { saveExists, saveLevel } from './lib/Level';
+import { levelFromHash } from './lib/LevelShare';
+import SceneManager from './lib/SceneManager';
 import LevelEditor from './scenes/LevelEditor';
+import MainMenu from './scenes/MainMenu';
 
-let currentScene: LevelEditor;
+let sceneManager: SceneManager;
+const gameLoop = new GameLoop();
 
 // debug info
 let debugInfoDiv: HTMLDivElement | null;
@@ -12,32 +18,70 @@ window.onload = init;
 
 function init() {
   let canvas = new MainCanvas(document.querySelector<HTMLCanvasElement>('#app')!);
-  currentScene = new LevelEditor(canvas);
+  sceneManager = new SceneManager(canvas);
+  sceneManager.push(new MainMenu(canvas));
+  openSharedLevel(canvas);
 
   window.addEventListener('resize', () => canvas.resize(window.innerWidth, window.innerHeight));
   canvas.resize(window.innerWidth, window.innerHeight);
 
-  // setup event callbacks
-  canvas.pointerMoveHandler = (ev, p) => currentScene.onPointerMove ? currentScene.onPointerMove(ev, p) : {};
-  canvas.pointerUpHandler = (ev, p) => currentScene.onPointerUp ? currentScene.onPointerUp(ev, p) : {};
-  canvas.pointerDownHandler = (ev, p) => currentScene.onPointerDown ? currentScene.onPointerDown(ev, p) : {};
-  canvas.keyDownHandler = ev => currentScene.onKeyDown ? currentScene.onKeyDown(ev) : {};
-  canvas.keyUpHandler = ev => currentScene.onKeyUp ? currentScene.onKeyUp(ev) : {};
-  canvas.wheelHandler = (ev, p) => currentScene.onWheel ? currentScene.onWheel(ev, p) : {};
-
   // debug info
   debugInfoDiv = document.querySelector<HTMLDivElement>('#debuginfo');
 
+  // debug time controls: ` pauses, . single-steps while paused, - and = change the time scale
+  window.addEventListener('keydown', ev => {
+    if (ev.ctrlKey || ev.metaKey || ev.altKey) return;
+    switch (ev.key) {
+      case '`':
+        gameLoop.paused = !gameLoop.paused;
+        break;
+      case '.':
+        gameLoop.step();
+        break;
+      case '-':
+        gameLoop.timeScale = Math.max(gameLoop.timeScale / 2, 1 / 16);
+        break;
+      case '=':
+        gameLoop.timeScale = Math.min(gameLoop.timeScale * 2, 16);
+        break;
+    }
+  });
+
   window.requestAnimationFrame(mainLoop);
 }
 
+// a share link's level is saved to a new slot and opened in the editor, instead of the auto-loaded one
+function openSharedLevel(canvas: MainCanvas) {
+  // so reloading the page doesn't try to import it again, whether or not it worked
+  const clearHash = () => history.replaceState(null, '', location.pathname + location.search);
+
+  levelFromHash(location.hash).then(level => {
+    if (!level) return;
+    clearHash();
+
+    let saveName = 'shared';
+    for (let i = 2; saveExists(saveName); i++)
+      saveName = `shared ${i}`;
+    // saving can fail too, e.g. when storage is full
+    saveLevel(saveName, level);
+    sceneManager.push(new LevelEditor(canvas, saveName));
+  }).catch(e => {
+    clearHash();
+    alert(`Can't open the shared level\n${e instanceof Error ? e.message : e}`);
+  });
+}
+
 function mainLoop(timestamp: DOMHighResTimeStamp) {
-  currentScene.draw();
+  const alpha = gameLoop.advance(timestamp, dt => sceneManager.update(dt));
+  sceneManager.draw(timestamp, alpha);
 
   if (debugInfoDiv) {
     // debug info
     const fps = 1_000 / (timestamp - lastFrameTime);
-    debugInfoDiv.innerHTML = `${fps.toFixed(2)} fps`;
+    let info = `${fps.toFixed(2)} fps`;
+    if (gameLoop.timeScale !== 1) info += `<br>x${gameLoop.timeScale} speed`;
+    if (gameLoop.paused) info += '<br>paused';
+    debugInfoDiv.innerHTML = info;
     lastFrameTime = timestamp;
   }
 
@@ -0,0 +1,252 @@
+import ButtonBar from "../lib/ButtonBar";
+import Camera from "../lib/Camera";
+import Canvas, { contains, Point, Rect } from "../lib/Canvas";
+import { grow } from "../lib/Geometry";
+import { copySave, deleteSave, EYE_RADIUS, Level, listSaves, loadLevel, renameSave, SaveInfo, saveExists } from "../lib/Level";
+import { LevelFormatError } from "../lib/LevelFormat";
+import Scene from "../lib/Scene";
+import LevelEditor from "./LevelEditor";
+
+const THUMBNAIL_SIZE = { w: 200, h: 120 };
+const CARD_PADDING = 10;
+const CARD_SIZE = { w: THUMBNAIL_SIZE.w + 2 * CARD_PADDING, h: THUMBNAIL_SIZE.h + 90 };
+const MARGIN = 20;
+const TOP_BAR_HEIGHT = 40;
+
+// the level scaled to fit, with eyes showing what they can see
+function renderThumbnail(parent: Canvas, level: Level): Canvas {
+    const thumbnail = parent.createChild(THUMBNAIL_SIZE);
+    thumbnail.clear('#ccc');
+
+    const rects = [
+        ...level.shapes.map(shape => shape.boundingRect()),
+        ...level.eyes.map(eye => { return { x: eye.pos.x, y: eye.pos.y, w: 0, h: 0 }; }),
+    ];
+    if (rects.length === 0)
+        return thumbnail;
+
+    const left = Math.min(...rects.map(r => r.x));
+    const top = Math.min(...rects.map(r => r.y));
+    const right = Math.max(...rects.map(r => r.x + r.w));
+    const bottom = Math.max(...rects.map(r => r.y + r.h));
+    const bounds = grow({ x: left, y: top, w: right - left, h: bottom - top }, 40);
+
+    const camera = new Camera();
+    camera.minZoom = 0;
+    camera.zoom = Math.min(THUMBNAIL_SIZE.w / bounds.w, THUMBNAIL_SIZE.h / bounds.h);
+    // centre the level along whichever axis has room to spare
+    camera.pos = {
+        x: bounds.x + bounds.w / 2 - THUMBNAIL_SIZE.w / camera.zoom / 2,
+        y: bounds.y + bounds.h / 2 - THUMBNAIL_SIZE.h / camera.zoom / 2,
+    };
+
+    camera.apply(thumbnail, () => {
+        for (const shape of level.shapes)
+            shape.draw(thumbnail);
+        for (const eye of level.eyes) {
+            eye.draw(thumbnail, level.shapes, 'rgba(0, 0, 0, 0.15)', false);
+            thumbnail.fillCircle(eye.pos, EYE_RADIUS, '#d66');
+        }
+    });
+
+    return thumbnail;
+}
+
+const formatTime = (modified?: number) => modified === undefined ? 'unknown' : new Date(modified).toLocaleString();
+
+type Slot = {
+    info: SaveInfo;
+    thumbnail?: Canvas; // missing if the level can't be loaded
+    rect: Rect;
+    actions: ButtonBar;
+};
+
+// lists the save slots for the editor to load, and manages them
+export default class LevelBrowser extends Scene {
+    editor: LevelEditor;
+    topBar = new ButtonBar({ x: 0, y: 0 }, 'left');
+    slots: Slot[] = [];
+    scroll = 0;
+
+    constructor(canvas: Canvas, editor: LevelEditor) {
+        super(canvas);
+        this.editor = editor;
+
+        this.topBar.addButton('➕', 'save the current level to a new slot', () => this.create(), 'momentary');
+        this.topBar.addButton('✖️', 'close (esc)', () => this.manager?.pop(), 'momentary');
+
+        this.refresh();
+    }
+
+    refresh() {
+        this.slots = listSaves()
+            .map(info => {
+                const actions = new ButtonBar({ x: 0, y: 0 }, 'right', 30);
+                actions.addButton('🗑', 'delete', () => this.delete(info.name), 'momentary');
+                actions.addButton('📄', 'duplicate', () => this.duplicate(info.name), 'momentary');
+                actions.addButton('🏷', 'rename', () => this.rename(info.name), 'momentary');
+                let thumbnail: Canvas | undefined;
+                try {
+                    thumbnail = renderThumbnail(this.canvas, loadLevel(info.name));
+                } catch (e) {
+                    if (!(e instanceof LevelFormatError))
+                        throw e;
+                }
+                return { info, thumbnail, rect: { x: 0, y: 0, ...CARD_SIZE }, actions };
+            });
+        this.layout();
+    }
+
+    layout() {
+        const columns = Math.max(1, Math.floor((this.canvas.size.w - MARGIN) / (CARD_SIZE.w + MARGIN)));
+        const rows = Math.ceil(this.slots.length / columns);
+        const contentHeight = TOP_BAR_HEIGHT + MARGIN + rows * (CARD_SIZE.h + MARGIN);
+        this.scroll = Math.max(0, Math.min(this.scroll, contentHeight - this.canvas.size.h));
+
+        this.slots.forEach((slot, i) => {
+            slot.rect = {
+                x: MARGIN + (i % columns) * (CARD_SIZE.w + MARGIN),
+                y: TOP_BAR_HEIGHT + MARGIN + Math.floor(i / columns) * (CARD_SIZE.h + MARGIN) - this.scroll,
+                ...CARD_SIZE,
+            };
+            slot.actions.origin = { x: slot.rect.x + slot.rect.w - CARD_PADDING, y: slot.rect.y + CARD_PADDING };
+        });
+    }
+
+    // prompts for a slot name, returning undefined if cancelled or the name is taken
+    promptName(message: string, initial: string): string | undefined {
+        const name = window.prompt(message, initial)?.trim();
+        if (!name)
+            return undefined;
+
+        if (saveExists(name)) {
+            window.alert(`There is already a level called '${name}'`);
+            return undefined;
+        }
+        return name;
+    }
+
+    create() {
+        const name = this.promptName('Save the current level as', this.editor.saveName);
+        if (!name)
+            return;
+
+        this.editor.saveName = name;
+        this.editor.save(name);
+        this.refresh();
+    }
+
+    rename(saveName: string) {
+        const name = this.promptName(`Rename '${saveName}' to`, saveName);
+        if (!name)
+            return;
+
+        renameSave(saveName, name);
+        if (this.editor.saveName === saveName)
+            this.editor.saveName = name;
+        this.refresh();
+    }
+
+    duplicate(saveName: string) {
+        const name = this.promptName(`Copy '${saveName}' to`, saveName + ' copy');
+        if (!name)
+            return;
+
+        copySave(saveName, name);
+        this.refresh();
+    }
+
+    delete(saveName: string) {
+        if (!window.confirm(`Delete '${saveName}'?`))
+            return;
+
+        deleteSave(saveName);
+        this.refresh();
+    }
+
+    open(saveName: string) {
+        // a save that won't load leaves the editor on its own slot, so the next save can't overwrite the broken one
+        if (!this.editor.load(saveName))
+            return;
+        this.editor.saveName = saveName;
+        this.manager?.pop();
+    }
+
+    onResize() {
+        this.layout();
+    }
+
+    draw(): void {
+        this.canvas.clear('#ccc');
+
+        for (const slot of this.slots) {
+            const { rect, info } = slot;
+            if (rect.y > this.canvas.size.h || rect.y + rect.h < 0)
+                continue;
+
+            this.canvas.fillRect(rect, info.name === this.editor.saveName ? '#eef' : '#eee');
+            this.canvas.ctx.strokeStyle = '#999';
+            this.canvas.ctx.lineWidth = 1;
+            this.canvas.strokeRect(rect);
+
+            const thumbnailRect = { x: rect.x + CARD_PADDING, y: rect.y + CARD_PADDING, ...THUMBNAIL_SIZE };
+            if (slot.thumbnail) {
+                this.canvas.drawCanvas(slot.thumbnail, undefined, thumbnailRect);
+            } else {
+                this.canvas.fillRect(thumbnailRect, '#dbb');
+                this.canvas.ctx.fillStyle = '#000';
+                this.canvas.fontSize = 16;
+                this.canvas.drawTextRect('⚠️ unreadable level', thumbnailRect);
+            }
+
+            this.canvas.ctx.fillStyle = '#000';
+            this.canvas.fontSize = 18;
+            const textX = rect.x + CARD_PADDING;
+            const textY = thumbnailRect.y + thumbnailRect.h + 8;
+            this.canvas.drawText(info.name, { x: textX, y: textY });
+            this.canvas.fontSize = 14;
+            this.canvas.ctx.fillStyle = '#444';
+            this.canvas.drawText(formatTime(info.modified), { x: textX, y: textY + 26 });
+            this.canvas.drawText(`${info.shapeCount} shapes, ${info.eyeCount} eyes`, { x: textX, y: textY + 46 });
+
+            slot.actions.draw(this.canvas);
+        }
+
+        this.canvas.fillRect({ x: 0, y: 0, w: this.canvas.size.w, h: TOP_BAR_HEIGHT }, '#ccc');
+        this.topBar.draw(this.canvas);
+    }
+
+    onPointerUp(_ev: PointerEvent, p: Point) {
+        if (this.topBar.onPointerUp(p))
+            return;
+
+        if (p.y < TOP_BAR_HEIGHT)
+            return;
+
+        for (const slot of this.slots) {
+            if (slot.actions.onPointerUp(p))
+                return;
+
+            if (contains(slot.rect, p)) {
+                this.open(slot.info.name);
+                return;
+            }
+        }
+    }
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        this.topBar.onPointerMove(p);
+        for (const slot of this.slots)
+            slot.actions.onPointerMove(p);
+    }
+
+    onWheel(ev: WheelEvent) {
+        this.scroll += ev.deltaY;
+        this.layout();
+    }
+
+    onKeyDown(ev: KeyboardEvent) {
+        if (ev.key === 'Escape')
+            this.manager?.pop();
+    }
+}
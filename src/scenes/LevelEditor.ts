@@ -1,272 +1,599 @@
 import ButtonBar from "../lib/ButtonBar";
+import Camera from "../lib/Camera";
 import Canvas, { contains, Point, Rect } from "../lib/Canvas";
+import History, { Command, CommandGroup } from "../lib/History";
+import Inspector, { Property } from "../lib/Inspector";
+import NavGrid from "../lib/NavGrid";
+import Noise, { NoiseKind, WALL_DAMPING } from "../lib/Noise";
+import { PLAYER_RADIUS } from "../lib/Player";
+import { LevelFormatError } from "../lib/LevelFormat";
+import { downloadLevel, pickLevelFile, readLevelFile, shareLink } from "../lib/LevelShare";
+import { circleContains, GRID_STEP, grow, isSimplePolygon, lerp, LineSegment, normaliseAngle, rectsOverlap, snapCentre, snapTopLeft, vecLen } from "../lib/Geometry";
+import { DEFAULT_GUARD_TUNING } from "../lib/Guard";
+import { blocks, Box, Circle, distanceToShape, Door, Eye, EYE_RADIUS, GuardTuning, Level, Light, LIGHT_RADIUS, loadLevel, parseLevel, Polygon, RevArray, saveLevel, serializeLevel, Shape, Sweep, Switch, SWITCH_RADIUS, Waypoint } from "../lib/Level";
 import Scene from "../lib/Scene";
+import SpatialGrid from "../lib/SpatialGrid";
+import LevelBrowser from "./LevelBrowser";
+import StealthGame from "./StealthGame";
+
+// anything that can be placed, selected and moved in the editor
+type Item = Shape | Eye | Light | Switch;
+
+// eyes, lights and switches sit at a point, rather than covering an area like shapes
+const isShape = (item: Item): item is Shape => !(item instanceof Eye || item instanceof Light || item instanceof Switch);
+
+// the inspector's title for an item
+const describeItem = (item: Item): string =>
+    item instanceof Eye ? 'eye' : item instanceof Light ? 'light' : item instanceof Switch ? 'switch' : item instanceof Door ? `door ${item.id}` : item.kind;
+
+// the editor's list an item lives in
+const listFor = (editor: LevelEditor, item: Item): Item[] =>
+    item instanceof Eye ? editor.eyes : item instanceof Light ? editor.lights : item instanceof Switch ? editor.switches : editor.shapes;
+
+const copyPatrol = (patrol: Waypoint[]) => patrol.map(w => Object.assign({}, w, { pos: Object.assign({}, w.pos) }));
+const copyCorners = (corners: Point[]) => corners.map(p => Object.assign({}, p));
+
+// the lit area tinted with the light's colour, and its bulb. The game darkens everywhere else instead
+const drawLitArea = (canvas: Canvas, light: Light, shapes: SpatialGrid<Shape>) => {
+    const area = light.on && light.litArea(shapes);
+    if (area) {
+        canvas.ctx.globalAlpha = 0.3 * light.intensity;
+        canvas.ctx.fillStyle = light.colour;
+        canvas.ctx.fill(area);
+        canvas.ctx.globalAlpha = 1;
+    }
+    canvas.fillCircle(light.pos, LIGHT_RADIUS, light.colour);
+    canvas.ctx.strokeStyle = '#a80';
+    canvas.ctx.lineWidth = 1;
+    canvas.strokeCircle(light.pos, LIGHT_RADIUS);
+};
+
+// the player, as it'll look in the game, with a flag
+const drawStart = (canvas: Canvas, p: Point) => {
+    canvas.fillCircle(p, PLAYER_RADIUS, '#36c');
+    canvas.ctx.strokeStyle = '#124';
+    canvas.ctx.lineWidth = 2;
+    canvas.drawLine({ x: p.x, y: p.y - PLAYER_RADIUS }, { x: p.x, y: p.y - PLAYER_RADIUS - 12 });
+    canvas.ctx.fillStyle = '#36c';
+    canvas.ctx.fillRect(p.x, p.y - PLAYER_RADIUS - 12, 8, 5);
+};
+
+const inspectorProperties = (item: Item): Property[] => {
+    const position: Property[] = [
+        { label: 'x', kind: 'number', get: () => item.origin.x, set: v => item.origin = { x: Number(v), y: item.origin.y } },
+        { label: 'y', kind: 'number', get: () => item.origin.y, set: v => item.origin = { x: item.origin.x, y: Number(v) } },
+    ];
+
+    if (item instanceof Eye) {
+        return [
+            ...position,
+            { label: 'angle', kind: 'angle', get: () => item.angle, set: v => item.angle = Number(v) },
+            { label: 'fov', kind: 'angle', min: 0, max: 2 * Math.PI, get: () => item.fov, set: v => item.fov = Number(v) },
+            { label: 'dist', kind: 'number', min: 0, get: () => item.dist, set: v => item.dist = Number(v) },
+            { label: 'speed', kind: 'number', min: 0, get: () => item.speed, set: v => item.speed = Number(v) },
+            // sweeping only applies without a patrol
+            {
+                label: 'sweep', kind: 'choice', options: ['off', 'pingpong', 'rotate'], get: () => item.sweep.mode, set: v => {
+                    // start off scanning around wherever the eye is facing
+                    if (item.sweep.mode === 'off' && v !== 'off')
+                        Object.assign(item.sweep, { from: item.angle - Math.PI / 4, to: item.angle + Math.PI / 4 });
+                    item.sweep.mode = v as Sweep['mode'];
+                },
+            },
+            { label: 'sweep from', kind: 'angle', get: () => item.sweep.from, set: v => item.sweep.from = Number(v) },
+            { label: 'sweep to', kind: 'angle', get: () => item.sweep.to, set: v => item.sweep.to = Number(v) },
+            { label: 'turn speed', kind: 'angle', min: 0, get: () => item.sweep.turnSpeed, set: v => item.sweep.turnSpeed = Number(v) },
+            { label: 'pause', kind: 'number', min: 0, get: () => item.sweep.pause, set: v => item.sweep.pause = Number(v) },
+            // how quickly the eye notices the player, see Detection
+            { label: 'notice rate', kind: 'number', min: 0, get: () => item.detection.rate, set: v => item.detection.rate = Number(v) },
+            { label: 'close dist', kind: 'number', min: 0, get: () => item.detection.closeDist, set: v => item.detection.closeDist = Number(v) },
+            { label: 'close rate', kind: 'number', min: 0, get: () => item.detection.closeRate, set: v => item.detection.closeRate = Number(v) },
+            // the focus is part of the view, so it's no wider than the fov
+            { label: 'focus', kind: 'angle', min: 0, max: 2 * Math.PI, get: () => item.detection.focus, set: v => item.detection.focus = Math.min(Number(v), item.fov) },
+            { label: 'side rate', kind: 'number', min: 0, get: () => item.detection.peripheralRate, set: v => item.detection.peripheralRate = Number(v) },
+            { label: 'forget rate', kind: 'number', min: 0, get: () => item.detection.decay, set: v => item.detection.decay = Number(v) },
+            { label: 'suspicious at', kind: 'number', min: 0, max: 1, get: () => item.detection.suspicious, set: v => item.detection.suspicious = Number(v) },
+        ];
+    }
+
+    if (item instanceof Light) {
+        return [
+            ...position,
+            { label: 'colour', kind: 'colour', get: () => item.colour, set: v => item.colour = String(v) },
+            { label: 'radius', kind: 'number', min: 0, get: () => item.radius, set: v => item.radius = Number(v) },
+            { label: 'intensity', kind: 'number', min: 0, max: 1, get: () => item.intensity, set: v => item.intensity = Number(v) },
+            { label: 'state', kind: 'choice', options: ['on', 'off'], get: () => item.on ? 'on' : 'off', set: v => item.on = v === 'on' },
+        ];
+    }
+
+    // switches are linked with the switch tool
+    if (item instanceof Switch)
+        return position;
+
+    const colours: Property[] = [
+        { label: 'colour', kind: 'colour', get: () => item.colour, set: v => item.colour = String(v) },
+        { label: 'border', kind: 'colour', get: () => item.border, set: v => item.border = String(v) },
+    ];
+
+    if (item instanceof Box || item instanceof Door) {
+        return [
+            ...position,
+            { label: 'w', kind: 'number', min: 0, get: () => item.rect.w, set: v => item.rect.w = Number(v) },
+            { label: 'h', kind: 'number', min: 0, get: () => item.rect.h, set: v => item.rect.h = Number(v) },
+            // how the door starts out
+            ...item instanceof Door ? [{
+                label: 'state', kind: 'choice', options: ['closed', 'open'], get: () => item.open ? 'open' : 'closed', set: v => item.open = v === 'open',
+            } as Property] : [],
+            ...colours,
+        ];
+    }
 
-const GRID_STEP = 10;
-const EYE_RADIUS = 6;
-
-const grow = (r: Rect, s: number) => { return { x: r.x - s / 2, y: r.y - s / 2, w: r.w + s, h: r.h + s }; };
-const snapTopLeft = (p: Point) => { return { x: Math.floor(p.x / GRID_STEP) * GRID_STEP, y: Math.floor(p.y / GRID_STEP) * GRID_STEP }; };
-const snapCentre = (p: Point) => { return { x: Math.round(p.x / GRID_STEP) * GRID_STEP, y: Math.round(p.y / GRID_STEP) * GRID_STEP }; };
-const circleContains = (centre: Point, radius: number, p: Point) => (p.x - centre.x) ** 2 + (p.y - centre.y) ** 2 < radius ** 2;
-const unitVector = (o: Point, p: Point) => {
-    const diff = { x: p.x - o.x, y: p.y - o.y };
-    const len = Math.hypot(diff.x, diff.y);
-    if (len === 0) return undefined;
-    return { x: diff.x / len, y: diff.y / len };
+    if (item instanceof Circle)
+        return [...position, { label: 'radius', kind: 'number', min: 0, get: () => item.radius, set: v => item.radius = Number(v) }, ...colours];
+
+    return [...position, ...colours];
 };
-const vecLen = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
 
-interface Draggable {
-    origin: Point;
-    contains(p: Point): boolean;
+// with nothing selected, the inspector edits how the level's guards behave
+const guardProperties = (guards: GuardTuning): Property[] => [
+    { label: 'reaction (s)', kind: 'number', min: 0, get: () => guards.reactionTime, set: v => guards.reactionTime = Number(v) },
+    { label: 'search (s)', kind: 'number', min: 0, get: () => guards.searchTime, set: v => guards.searchTime = Number(v) },
+    { label: 'chase speed', kind: 'number', min: 0, get: () => guards.chaseSpeed, set: v => guards.chaseSpeed = Number(v) },
+    { label: 'catch dist', kind: 'number', min: 0, get: () => guards.catchDistance, set: v => guards.catchDistance = Number(v) },
+];
+
+class AddCommand implements Command {
+    editor: LevelEditor;
+    item: Item;
+
+    constructor(editor: LevelEditor, item: Item) {
+        this.editor = editor;
+        this.item = item;
+    }
+
+    apply() {
+        listFor(this.editor, this.item).push(this.item);
+        this.editor.onShapesUpdated([this.item]);
+    }
 
-    readonly snap: boolean;
+    revert() {
+        const list = listFor(this.editor, this.item);
+        list.splice(list.indexOf(this.item), 1);
+        this.editor.selection.delete(this.item);
+        this.editor.onShapesUpdated([this.item]);
+    }
 }
 
-interface Shape extends Draggable {
-    readonly kind: string;
-    colour: string;
-    border: string;
+class RemoveCommand implements Command {
+    editor: LevelEditor;
+    item: Item;
+    index = -1;
+    unlinked: { sw: Switch, index: number; }[] = []; // switches that worked the item, so a switch isn't left linked to nothing
+
+    constructor(editor: LevelEditor, item: Item) {
+        this.editor = editor;
+        this.item = item;
+    }
+
+    apply() {
+        // remembered so the item goes back at the same depth
+        const list = listFor(this.editor, this.item);
+        this.index = list.indexOf(this.item);
+        list.splice(this.index, 1);
+        this.editor.selection.delete(this.item);
+        this.editor.onShapesUpdated([this.item]);
+
+        const id = this.#id();
+        this.unlinked = [];
+        for (const sw of this.editor.switches) {
+            const index = id === undefined ? -1 : sw.links.indexOf(id);
+            if (index >= 0) {
+                sw.links.splice(index, 1);
+                this.unlinked.push({ sw, index });
+            }
+        }
+    }
 
-    draw(canvas: Canvas): void;
-    cornersForEye(eye: Eye): Point[];
-    arcIntersections(arc: { pos: Point, dist: number }): Point[];
-    lineIntersections(seg: LineSegment): Point | undefined;
+    revert() {
+        listFor(this.editor, this.item).splice(this.index, 0, this.item);
+        this.editor.onShapesUpdated([this.item]);
+        for (const { sw, index } of this.unlinked)
+            sw.links.splice(index, 0, this.#id()!);
+    }
 
-    serialize(): any;
+    #id(): string | undefined {
+        return this.item instanceof Door || this.item instanceof Light ? this.item.id : undefined;
+    }
 }
 
-class LineSegment {
-    start: Point;
-    end: Point;
+class MoveCommand implements Command {
+    editor: LevelEditor;
+    targets: Item[];
+    from: Point[];
+    to: Point[];
+    dragId?: number; // moves from the same drag are merged into a single step
 
-    constructor(start: Point, end: Point) {
-        this.start = Object.assign({}, start);
-        this.end = Object.assign({}, end);
+    constructor(editor: LevelEditor, targets: Item[], to: Point[], dragId?: number) {
+        this.editor = editor;
+        this.targets = [...targets];
+        this.from = targets.map(target => Object.assign({}, target.origin));
+        this.to = to.map(p => Object.assign({}, p));
+        this.dragId = dragId;
     }
 
-    // https://gorillasun.de/blog/an-algorithm-for-polygon-intersections#5
-    // http://paulbourke.net/geometry/pointlineplane/
-    intersection(b: LineSegment): Point | undefined {
-        const a = this;
+    apply() {
+        this.targets.forEach((target, i) => target.origin = Object.assign({}, this.to[i]));
+        this.editor.onShapesUpdated(this.targets);
+    }
 
-        if ((a.start.x === a.end.x && a.start.y === a.end.y) || (b.start.x === b.end.x && b.start.y === b.end.y))
-            // line has length 0
-            return;
+    revert() {
+        this.targets.forEach((target, i) => target.origin = Object.assign({}, this.from[i]));
+        this.editor.onShapesUpdated(this.targets);
+    }
 
-        const denominator = ((b.end.y - b.start.y) * (a.end.x - a.start.x) - (b.end.x - b.start.x) * (a.end.y - a.start.y));
-        if (denominator === 0)
-            // lines are parallel
-            return;
+    merge(next: Command): boolean {
+        if (!(next instanceof MoveCommand) || this.dragId === undefined || next.dragId !== this.dragId)
+            return false;
 
-        let ua = ((b.end.x - b.start.x) * (a.start.y - b.start.y) - (b.end.y - b.start.y) * (a.start.x - b.start.x)) / denominator;
-        let ub = ((a.end.x - a.start.x) * (a.start.y - b.start.y) - (a.end.y - a.start.y) * (a.start.x - b.start.x)) / denominator;
+        this.to = next.to;
+        return true;
+    }
+}
 
-        if (ua < 0 || ua > 1 || ub < 0 || ub > 1)
-            // intersection does not occur along the segments
-            return;
+// swaps out the whole level, for clear and load
+class LevelCommand implements Command {
+    editor: LevelEditor;
+    level: Level;
 
-        // return a object with the x and y coordinates of the intersection
-        return {
-            x: a.start.x + ua * (a.end.x - a.start.x),
-            y: a.start.y + ua * (a.end.y - a.start.y),
+    constructor(editor: LevelEditor, level: Level) {
+        this.editor = editor;
+        this.level = level;
+    }
+
+    apply() { this.#swap(); }
+    revert() { this.#swap(); }
+
+    #swap() {
+        const current: Level = {
+            shapes: this.editor.shapes, eyes: this.editor.eyes, lights: this.editor.lights, switches: this.editor.switches,
+            guards: this.editor.guards, start: this.editor.start,
         };
+        this.editor.shapes = this.level.shapes;
+        this.editor.eyes = this.level.eyes;
+        this.editor.lights = this.level.lights ?? [];
+        this.editor.switches = this.level.switches ?? [];
+        this.editor.guards = this.level.guards ?? Object.assign({}, DEFAULT_GUARD_TUNING);
+        this.editor.start = this.level.start;
+        this.level = current;
+        this.editor.selection.clear();
+        this.editor.onShapesUpdated();
+    }
+}
+
+class PropertyCommand implements Command {
+    editor: LevelEditor;
+    item?: Item; // undefined for the level's own properties
+    property: Property;
+    from: number | string;
+    to: number | string;
+    editId: number; // edits from the same inspector session are merged into a single step
+
+    constructor(editor: LevelEditor, item: Item | undefined, property: Property, to: number | string, editId: number) {
+        this.editor = editor;
+        this.item = item;
+        this.property = property;
+        this.from = property.get();
+        this.to = to;
+        this.editId = editId;
+    }
+
+    apply() {
+        this.property.set(this.to);
+        this.editor.onShapesUpdated(this.item ? [this.item] : []);
+    }
+
+    revert() {
+        this.property.set(this.from);
+        this.editor.onShapesUpdated(this.item ? [this.item] : []);
+    }
+
+    merge(next: Command): boolean {
+        if (!(next instanceof PropertyCommand) || next.property !== this.property || next.editId !== this.editId)
+            return false;
+
+        this.to = next.to;
+        return true;
+    }
+}
+
+// moves (or removes) where the player starts
+class StartCommand implements Command {
+    editor: LevelEditor;
+    from?: Point;
+    to?: Point;
+
+    constructor(editor: LevelEditor, to?: Point) {
+        this.editor = editor;
+        this.from = editor.start;
+        this.to = to && Object.assign({}, to);
     }
 
-    boundingRect(): Rect {
-        const x = [this.start.x, this.end.x].sort((a, b) => a - b);
-        const y = [this.start.y, this.end.y].sort((a, b) => a - b);
+    apply() { this.editor.start = this.to; }
+    revert() { this.editor.start = this.from; }
+}
+
+// links a switch to the door or light with id, or unlinks it if it already was
+class LinkCommand implements Command {
+    sw: Switch;
+    id: string;
 
-        return { x: x[0], y: y[0], w: x[1] - x[0], h: y[1] - y[0] };
+    constructor(sw: Switch, id: string) {
+        this.sw = sw;
+        this.id = id;
     }
 
-    // https://stackoverflow.com/a/16561333
-    pseudoAngle(): number {
-        const d = { x: this.end.x - this.start.x, y: this.end.y - this.start.y };
-        const p = d.x / (Math.abs(d.x) + Math.abs(d.y)); // -1..1 increasing with x
-        if (d.y < 0)
-            return p - 1;  // -2..0 increasing with x
+    apply() { this.#toggle(); }
+    revert() { this.#toggle(); }
+
+    #toggle() {
+        const i = this.sw.links.indexOf(this.id);
+        if (i >= 0)
+            this.sw.links.splice(i, 1);
         else
-            return 1 - p;  // 0..2 decreasing with x
+            this.sw.links.push(this.id);
     }
 }
 
-class RevArray<T> extends Array<T> {
-    *revEntries(): IterableIterator<[number, T]> {
-        for (let i = this.length - 1; i >= 0; i--)
-            yield [i, this[i]];
+class PatrolCommand implements Command {
+    eye: Eye;
+    before: Waypoint[];
+    after: Waypoint[];
+
+    constructor(eye: Eye, before: Waypoint[], after: Waypoint[]) {
+        this.eye = eye;
+        this.before = copyPatrol(before);
+        this.after = copyPatrol(after);
     }
+
+    apply() { this.eye.patrol = copyPatrol(this.after); }
+    revert() { this.eye.patrol = copyPatrol(this.before); }
 }
 
-class Eye implements Draggable {
-    readonly snap = false;
-    pos: Point;
-    angle = 0;
+// swaps a shape for a transformed copy at the same depth, for resizing and rotating
+class ReplaceCommand implements Command {
+    editor: LevelEditor;
+    from: Shape;
+    to: Shape;
+    dragId?: number; // replacements from the same drag are merged into a single step
 
-    // defaults
-    fov = Math.PI / 2;
-    dist = 200;
+    constructor(editor: LevelEditor, from: Shape, to: Shape, dragId?: number) {
+        this.editor = editor;
+        this.from = from;
+        this.to = to;
+        this.dragId = dragId;
+    }
 
-    rays?: [LineSegment, Point | undefined][];
-    path?: Path2D;
+    apply() { this.#swap(this.from, this.to); }
+    revert() { this.#swap(this.to, this.from); }
 
-    constructor(p: Point) {
-        this.pos = Object.assign({}, p);
+    #swap(out: Shape, into: Shape) {
+        const shapes = this.editor.shapes;
+        shapes[shapes.indexOf(out)] = into;
+        if (this.editor.selection.delete(out))
+            this.editor.selection.add(into);
+        this.editor.onShapesUpdated([out, into]);
     }
 
-    public get origin(): Point { return this.pos; }
-    public set origin(p: Point) { this.pos = p; }
+    merge(next: Command): boolean {
+        if (!(next instanceof ReplaceCommand) || this.dragId === undefined || next.dragId !== this.dragId || next.from !== this.to)
+            return false;
 
-    contains(p: Point): boolean {
-        return (p.x - this.pos.x) ** 2 + (p.y - this.pos.y) ** 2 < EYE_RADIUS ** 2;
+        this.to = next.to;
+        return true;
     }
+}
 
-    lookAt(p: Point) {
-        const vec = unitVector(this.pos, p);
-        if (vec === undefined)
-            return;
+class CornersCommand implements Command {
+    editor: LevelEditor;
+    polygon: Polygon;
+    from: Point[];
+    to: Point[];
+    dragId?: number; // edits from the same drag are merged into a single step
 
-        this.angle = Math.atan2(vec.y, vec.x);
-        this.rays = undefined;
+    constructor(editor: LevelEditor, polygon: Polygon, to: Point[], dragId?: number) {
+        this.editor = editor;
+        this.polygon = polygon;
+        this.from = copyCorners(polygon.corners);
+        this.to = copyCorners(to);
+        this.dragId = dragId;
     }
 
-    draw(canvas: Canvas, shapes: Shape[], colour = 'rgba(0, 0, 0, 0.15)') {
-        if (this.rays === undefined)
-            this.castRays(shapes);
+    apply() {
+        this.polygon.corners = copyCorners(this.to);
+        this.editor.onShapesUpdated([this.polygon]);
+    }
 
-        if (this.path) {
-            canvas.ctx.fillStyle = colour;
-            canvas.ctx.fill(this.path);
-        }
+    revert() {
+        this.polygon.corners = copyCorners(this.from);
+        this.editor.onShapesUpdated([this.polygon]);
+    }
 
-        // -- debug --
-        canvas.ctx.strokeStyle = '#0cc';
-        canvas.ctx.lineWidth = 1;
-        for (const [ray, intersect] of this.rays!) {
-            canvas.drawLine(ray.start, ray.end);
-            if (intersect) canvas.fillCircle(intersect, 2, '#f00');
-        }
-        // -----------
+    merge(next: Command): boolean {
+        if (!(next instanceof CornersCommand) || next.polygon !== this.polygon || this.dragId === undefined || next.dragId !== this.dragId)
+            return false;
+
+        this.to = next.to;
+        return true;
     }
+}
 
-    castRays(shapes: Shape[]) {
-        let potentialPoints: Point[] = [];
-        for (const shape of shapes) {
-            potentialPoints.push(...shape.cornersForEye(this)
-                .filter(corner => {
-                    const length = Math.hypot(corner.x - this.pos.x, corner.y - this.pos.y);
-                    return length > 0 && length < this.dist;
-                }));
-            potentialPoints.push(...shape.arcIntersections(this));
-        }
+let nextDragId = 0;
 
-        let potentialAngles: [corner: Point, angle: number][] = [];
-        for (const point of potentialPoints) {
-            const vec = unitVector(this.pos, point)!;
-            const angle = Math.atan2(vec.y, vec.x);
-            let diff = angle - this.angle;
-            diff += diff > Math.PI ? -2 * Math.PI : (diff < -Math.PI ? 2 * Math.PI : 0);
+const HANDLE_RADIUS = 5; // screen px
+const ROTATE_HANDLE_OFFSET = 24; // screen px above the shape
+const ROTATE_STEP = Math.PI / 12;
+
+type Handle = {
+    kind: 'resize' | 'radius' | 'rotate';
+    pos: Point;
+    // for resizing, which sides of the box follow the handle: -1 left/top, 1 right/bottom, 0 neither
+    sides?: Point;
+};
 
-            if (diff < this.fov / 2 && diff > -this.fov / 2)
-                potentialAngles.push([point, angle]);
+const handlesFor = (shape: Shape, zoom: number): Handle[] => {
+    const handles: Handle[] = [];
+    if (shape instanceof Box || shape instanceof Door) {
+        const { x, y, w, h } = shape.rect;
+        for (const sy of [-1, 0, 1]) {
+            for (const sx of [-1, 0, 1]) {
+                if (sx !== 0 || sy !== 0)
+                    handles.push({ kind: 'resize', pos: { x: x + w * (sx + 1) / 2, y: y + h * (sy + 1) / 2 }, sides: { x: sx, y: sy } });
+            }
         }
+    } else if (shape instanceof Circle) {
+        handles.push({ kind: 'radius', pos: { x: shape.origin.x + shape.radius, y: shape.origin.y } });
+    }
 
-        potentialAngles = potentialAngles.sort((a, b) => this.ray(a[1]).pseudoAngle() - this.ray(b[1]).pseudoAngle());
+    // doors stay upright
+    if (shape instanceof Box || shape instanceof Polygon) {
+        const rect = shape.boundingRect();
+        handles.push({ kind: 'rotate', pos: { x: rect.x + rect.w / 2, y: rect.y - ROTATE_HANDLE_OFFSET / zoom } });
+    }
+    return handles;
+};
 
-        const startAngle = this.angle - this.fov / 2;
-        const endAngle = this.angle + this.fov / 2;
-        const startRay = this.ray(startAngle);
-        const endRay = this.ray(endAngle);
-        const startIndex = potentialAngles.findIndex(([_, angle]) => this.ray(angle).pseudoAngle() > startRay.pseudoAngle());
+const withColours = <T extends Shape>(shape: T, like: Shape): T => {
+    shape.colour = like.colour;
+    shape.border = like.border;
+    return shape;
+};
 
-        const orderedAngles: [corner: Point | undefined, angle: number][] = (startIndex < 0)
-            ? [[undefined, startAngle], ...potentialAngles, [undefined, endAngle]]
-            : [[undefined, startAngle],
-            ...potentialAngles.slice(startIndex),
-            ...potentialAngles.slice(0, startIndex),
-            [undefined, endAngle]];
+// a copy of shape with handle dragged from start to p. Rotating turns a box into a polygon, so occlusion doesn't need to know about rotation
+const transformed = (shape: Shape, handle: Handle, start: Point, p: Point): Shape => {
+    if (handle.kind === 'resize' && (shape instanceof Box || shape instanceof Door) && handle.sides) {
+        const q = snapCentre(p);
+        let { x, y, w, h } = shape.rect;
+        const [right, bottom] = [x + w, y + h];
+        if (handle.sides.x === -1) {
+            x = Math.min(q.x, x + w - GRID_STEP);
+            w = right - x;
+        } else if (handle.sides.x === 1) {
+            w = Math.max(q.x - x, GRID_STEP);
+        }
+        if (handle.sides.y === -1) {
+            y = Math.min(q.y, y + h - GRID_STEP);
+            h = bottom - y;
+        } else if (handle.sides.y === 1) {
+            h = Math.max(q.y - y, GRID_STEP);
+        }
+        if (shape instanceof Door) {
+            const door = withColours(new Door({ x, y, w, h }, shape.id), shape);
+            door.open = shape.open;
+            return door;
+        }
+        return withColours(new Box({ x, y, w, h }), shape);
+    }
 
-        const lines: [corner: Point | undefined, angle: number, intersection: Point | undefined][] = orderedAngles.map(([corner, angle]) => {
-            const intersections = (shapes
-                .map(shape => shape.lineIntersections(this.ray(angle)))
-                .filter(p => p) as Point[])
-                .sort((a, b) => vecLen(this.pos, a) - vecLen(this.pos, b));
+    if (handle.kind === 'radius' && shape instanceof Circle) {
+        const circle = withColours(new Circle(shape.origin), shape);
+        circle.radius = Math.max(1, vecLen(shape.origin, snapCentre(p)));
+        return circle;
+    }
 
-            return [corner, angle, intersections[0]];
+    if (handle.kind === 'rotate' && (shape instanceof Box || shape instanceof Polygon)) {
+        const rect = shape.boundingRect();
+        const centre = { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 };
+        const turn = Math.atan2(p.y - centre.y, p.x - centre.x) - Math.atan2(start.y - centre.y, start.x - centre.x);
+        const angle = Math.round(turn / ROTATE_STEP) * ROTATE_STEP;
+        if (normaliseAngle(angle) === 0)
+            return shape;
+
+        const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+        const corners = shape instanceof Box ? shape.edges().map(edge => edge.start) : shape.corners;
+        const polygon = withColours(new Polygon(corners[0]), shape);
+        polygon.corners = corners.map(c => {
+            const d = { x: c.x - centre.x, y: c.y - centre.y };
+            return { x: centre.x + d.x * cos - d.y * sin, y: centre.y + d.x * sin + d.y * cos };
         });
+        return polygon;
+    }
 
-        const path = new Path2D();
-        path.moveTo(this.pos.x, startRay.start.y);
-        if (lines[0][2] !== undefined) {
-            path.lineTo(lines[0][2].x, lines[0][2].y)
-        } else {
-            path.lineTo(startRay.end.x, startRay.end.y);
-        }
-        for (let i = 0; i < lines.length - 1; i++) {
-            let [c1, a1, i1] = lines[i];
-            let [c2, a2, i2] = lines[i + 1];
-            const midRay = this.ray((a1 + a2) / 2);
-            const midIntersects = shapes.some(shape => shape.lineIntersections(midRay));
-            if (!midIntersects) {
-                path.arc(
-                    this.pos.x, this.pos.y,
-                    this.dist,
-                    a1,
-                    a2,
-                );
-            }
+    return shape;
+};
 
-            // debug
-            c1 ??= i1 ??= this.pos;
-            c2 ??= i2 ??= this.pos;
+// resize and rotate handles on a lone selected shape, shared by the tools that select things
+class Transformer {
+    editor: LevelEditor;
+    handle?: Handle;
+    original?: Shape;
+    current?: Shape;
+    start?: Point;
+    dragId = 0;
 
-            if (i2 && (vecLen(this.pos, i2) < vecLen(this.pos, c2))) {
-                path.lineTo(i2.x, i2.y);
-                continue;
-            }
+    constructor(editor: LevelEditor) {
+        this.editor = editor;
+    }
 
-            if (i2) {
-                const cToI = new LineSegment(c1, i2);
-                const cToIIntersects = shapes.some(shape => shape.lineIntersections(cToI));
-                if (cToIIntersects)
-                    path.lineTo(c2.x, c2.y);
-                const midPoint = { x: (i2.x + c2.x) / 2, y: (i2.y + c2.y) / 2 };
-                if (!shapes.some(shape => shape.contains(midPoint)))
-                    path.lineTo(i2.x, i2.y);
-
-                if (!cToIIntersects)
-                    path.lineTo(c2.x, c2.y);
-            } else {
-                path.lineTo(c2.x, c2.y);
-            }
-        }
-        path.lineTo(endRay.start.x, endRay.start.y);
-        this.path = path;
+    #target(): Shape | undefined {
+        const item = this.editor.selection.size === 1 ? [...this.editor.selection][0] : undefined;
+        return item && isShape(item) ? item : undefined;
+    }
+
+    // starts dragging a handle if there's one at p
+    begin(p: Point): boolean {
+        const shape = this.#target();
+        if (!shape)
+            return false;
 
-        this.rays = lines.map(([_, angle, intersection]) => [this.ray(angle), intersection]);
+        const radius = HANDLE_RADIUS / this.editor.camera.zoom;
+        const handle = handlesFor(shape, this.editor.camera.zoom).find(handle => vecLen(handle.pos, p) <= radius);
+        if (!handle)
+            return false;
+
+        this.handle = handle;
+        this.original = shape;
+        this.current = shape;
+        this.start = Object.assign({}, p);
+        this.dragId = nextDragId++;
+        return true;
     }
 
-    ray(angle: number, dist = this.dist): LineSegment {
-        return new LineSegment(this.pos, { x: this.pos.x + dist * Math.cos(angle), y: this.pos.y + dist * Math.sin(angle) });
+    // true while a handle is being dragged
+    move(p: Point): boolean {
+        if (!this.handle || !this.original || !this.current || !this.start)
+            return false;
+
+        const next = transformed(this.original, this.handle, this.start, p);
+        if (JSON.stringify(next.serialize()) !== JSON.stringify(this.current.serialize())) {
+            this.editor.history.execute(new ReplaceCommand(this.editor, this.current, next, this.dragId));
+            this.current = next;
+        }
+        return true;
     }
 
-    serialize(): any {
-        return {
-            pos: this.pos,
-            angle: this.angle,
-            fov: this.fov,
-            dist: this.dist,
-        };
+    end() {
+        this.handle = undefined;
+        this.original = undefined;
+        this.current = undefined;
+        this.start = undefined;
     }
 
-    static deserialize(raw: any): Eye {
-        const eye = new Eye(raw.pos);
-        eye.angle = raw.angle;
-        eye.fov = raw.fov;
-        eye.dist = raw.dist;
+    draw(canvas: Canvas) {
+        const shape = this.#target();
+        if (!shape)
+            return;
 
-        return eye;
+        const zoom = this.editor.camera.zoom;
+        canvas.ctx.strokeStyle = '#06f';
+        canvas.ctx.lineWidth = 1.5 / zoom;
+        for (const handle of handlesFor(shape, zoom)) {
+            if (handle.kind === 'rotate') {
+                const rect = shape.boundingRect();
+                canvas.drawLine({ x: handle.pos.x, y: rect.y }, handle.pos);
+            }
+            canvas.fillCircle(handle.pos, HANDLE_RADIUS / zoom, '#fff');
+            canvas.strokeCircle(handle.pos, HANDLE_RADIUS / zoom);
+        }
     }
 }
 
@@ -281,36 +608,58 @@ abstract class Tool {
     onPointerMove?(ev: PointerEvent, p: Point): void;
     onPointerUp?(ev: PointerEvent, p: Point): void;
     onPointerDown?(ev: PointerEvent, p: Point): void;
+    onKeyDown?(ev: KeyboardEvent): void;
 
     draw?(canvas: Canvas): void;
 }
 
 class HandTool extends Tool {
     readonly kind = 'hand';
-    dragging?: Draggable;
+    dragging?: Item;
     dragStart?: Point;
+    dragId = 0;
+    transformer = new Transformer(this.editor);
 
     onPointerMove(_ev: PointerEvent, p: Point) {
+        if (this.transformer.move(p))
+            return;
+
         if (this.dragStart) {
             if (!this.dragging) return;
-            const newPos = { x: p.x - this.dragStart.x, y: p.y - this.dragStart.y };
-            this.dragging.origin = this.dragging.snap ? snapTopLeft(newPos) : newPos;
-            this.editor.onShapesUpdated();
+            let newPos = { x: p.x - this.dragStart.x, y: p.y - this.dragStart.y };
+            if (this.dragging.snap)
+                newPos = snapTopLeft(newPos);
+            if (newPos.x === this.dragging.origin.x && newPos.y === this.dragging.origin.y)
+                return;
+
+            this.editor.history.execute(new MoveCommand(this.editor, [this.dragging], [newPos], this.dragId));
         }
     }
 
     onPointerUp() {
         this.dragging = undefined;
         this.dragStart = undefined;
+        this.transformer.end();
     }
 
     onPointerDown(_ev: PointerEvent, p: Point) {
-        if (this.dragging) return;
+        if (this.dragging || this.transformer.begin(p)) return;
+        this.dragId = nextDragId++;
 
         for (const [_, eye] of this.editor.eyes.entries()) {
             if (eye.contains(p)) {
                 this.dragging = eye;
                 this.dragStart = { x: p.x - eye.pos.x, y: p.y - eye.pos.y };
+                this.select(eye);
+                return;
+            }
+        }
+
+        for (const item of [...this.editor.lights, ...this.editor.switches]) {
+            if (item.contains(p)) {
+                this.dragging = item;
+                this.dragStart = { x: p.x - item.pos.x, y: p.y - item.pos.y };
+                this.select(item);
                 return;
             }
         }
@@ -319,19 +668,251 @@ class HandTool extends Tool {
             if (shape.contains(p)) {
                 this.dragging = shape;
                 this.dragStart = { x: p.x - shape.origin.x, y: p.y - shape.origin.y };
+                this.select(shape);
                 return;
             }
         }
+
+        this.editor.selection.clear();
+    }
+
+    // grabbing something also selects it, so it shows up in the inspector
+    select(item: Item) {
+        this.editor.selection.clear();
+        this.editor.selection.add(item);
+    }
+
+    draw(canvas: Canvas) {
+        this.transformer.draw(canvas);
+    }
+}
+
+class SelectTool extends Tool {
+    readonly kind = 'select';
+    marqueeStart?: Point;
+    marqueeEnd?: Point;
+    dragStart?: Point;
+    dragItems: Item[] = [];
+    dragOrigins: Point[] = [];
+    dragId = 0;
+    transformer = new Transformer(this.editor);
+
+    onPointerDown(ev: PointerEvent, p: Point) {
+        if (this.transformer.begin(p))
+            return;
+
+        const selection = this.editor.selection;
+        const item = this.editor.itemAt(p);
+        if (!item) {
+            if (!ev.shiftKey)
+                selection.clear();
+            this.marqueeStart = Object.assign({}, p);
+            this.marqueeEnd = Object.assign({}, p);
+            return;
+        }
+
+        if (ev.shiftKey) {
+            if (selection.has(item))
+                selection.delete(item);
+            else
+                selection.add(item);
+            return;
+        }
+
+        if (!selection.has(item)) {
+            selection.clear();
+            selection.add(item);
+        }
+
+        this.dragStart = Object.assign({}, p);
+        this.dragItems = [...selection];
+        this.dragOrigins = this.dragItems.map(item => Object.assign({}, item.origin));
+        this.dragId = nextDragId++;
+    }
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        if (this.transformer.move(p))
+            return;
+
+        if (this.marqueeStart) {
+            this.marqueeEnd = Object.assign({}, p);
+            return;
+        }
+
+        if (!this.dragStart)
+            return;
+
+        // moving by whole grid steps keeps snapped shapes on the grid
+        const delta = snapCentre({ x: p.x - this.dragStart.x, y: p.y - this.dragStart.y });
+        const to = this.dragOrigins.map(o => { return { x: o.x + delta.x, y: o.y + delta.y }; });
+        if (to.every((p, i) => p.x === this.dragItems[i].origin.x && p.y === this.dragItems[i].origin.y))
+            return;
+
+        this.editor.history.execute(new MoveCommand(this.editor, this.dragItems, to, this.dragId));
+    }
+
+    onPointerUp() {
+        if (this.marqueeStart && this.marqueeEnd) {
+            const rect = new LineSegment(this.marqueeStart, this.marqueeEnd).boundingRect();
+            for (const item of this.editor.items()) {
+                if (isShape(item) ? rectsOverlap(rect, item.boundingRect()) : contains(rect, item.pos))
+                    this.editor.selection.add(item);
+            }
+        }
+
+        this.marqueeStart = undefined;
+        this.marqueeEnd = undefined;
+        this.dragStart = undefined;
+        this.dragItems = [];
+        this.transformer.end();
+    }
+
+    onKeyDown(ev: KeyboardEvent) {
+        const ctrl = ev.ctrlKey || ev.metaKey;
+        const nudges: { [key: string]: Point; } = {
+            ArrowUp: { x: 0, y: -GRID_STEP },
+            ArrowDown: { x: 0, y: GRID_STEP },
+            ArrowLeft: { x: -GRID_STEP, y: 0 },
+            ArrowRight: { x: GRID_STEP, y: 0 },
+        };
+
+        if (ctrl && ev.key === 'a') {
+            this.editor.items().forEach(item => this.editor.selection.add(item));
+        } else if (ctrl && ev.key === 'c') {
+            this.copy();
+        } else if (ctrl && ev.key === 'x') {
+            if (this.copy())
+                this.delete();
+        } else if (ctrl && ev.key === 'v') {
+            this.paste();
+        } else if (ctrl && ev.key === 'd') {
+            this.duplicate();
+        } else if (ev.key === 'Delete' || ev.key === 'Backspace') {
+            this.delete();
+        } else if (ev.key in nudges) {
+            this.nudge(nudges[ev.key]);
+        } else {
+            return;
+        }
+        ev.preventDefault();
+    }
+
+    // selected shapes (in draw order), eyes, lights and switches
+    selected(): { shapes: Shape[], eyes: Eye[], lights: Light[], switches: Switch[]; } {
+        return {
+            shapes: this.editor.shapes.filter(shape => this.editor.selection.has(shape)),
+            eyes: this.editor.eyes.filter(eye => this.editor.selection.has(eye)),
+            lights: this.editor.lights.filter(light => this.editor.selection.has(light)),
+            switches: this.editor.switches.filter(sw => this.editor.selection.has(sw)),
+        };
+    }
+
+    delete() {
+        const items = [...this.editor.selection];
+        if (items.length > 0)
+            this.editor.history.execute(new CommandGroup(items.map(item => new RemoveCommand(this.editor, item))));
+    }
+
+    nudge(delta: Point) {
+        const items = [...this.editor.selection];
+        if (items.length > 0) {
+            const to = items.map(item => { return { x: item.origin.x + delta.x, y: item.origin.y + delta.y }; });
+            this.editor.history.execute(new MoveCommand(this.editor, items, to));
+        }
+    }
+
+    // false if there's no clipboard to copy to (it's only there on secure pages)
+    copy(): boolean {
+        if (!navigator.clipboard) {
+            this.editor.showNotice('no clipboard to copy to');
+            return false;
+        }
+        if (this.editor.selection.size > 0)
+            navigator.clipboard.writeText(JSON.stringify(serializeLevel(this.selected())))
+                .catch(() => this.editor.showNotice("couldn't copy to the clipboard"));
+        return true;
+    }
+
+    paste() {
+        if (!navigator.clipboard) {
+            this.editor.showNotice('no clipboard to paste from');
+            return;
+        }
+        navigator.clipboard.readText().then(text => {
+            try {
+                const level = parseLevel(JSON.parse(text), { fragment: true });
+                const items = [...level.shapes, ...level.eyes, ...level.lights ?? [], ...level.switches ?? []];
+                this.renumber(items);
+                this.add(items);
+            } catch {
+                this.editor.showNotice("the clipboard doesn't hold a level");
+            }
+        }, () => this.editor.showNotice("couldn't read the clipboard"));
+    }
+
+    duplicate() {
+        const level = parseLevel(JSON.parse(JSON.stringify(serializeLevel(this.selected()))), { fragment: true });
+        const items = [...level.shapes, ...level.eyes, ...level.lights ?? [], ...level.switches ?? []];
+        for (const item of items)
+            item.origin = { x: item.origin.x + GRID_STEP * 2, y: item.origin.y + GRID_STEP * 2 };
+        this.renumber(items);
+        this.add(items);
+    }
+
+    // gives copied doors and lights ids of their own, so the switches copied along with them work the copies and not the originals.
+    // Links to doors and lights that were left behind are kept if they're in this level, and dropped if not
+    renumber(items: Item[]) {
+        const existing = this.editor.ids();
+        const renamed = new Map<string, string>();
+        for (const item of items) {
+            if (!(item instanceof Door || item instanceof Light) || item.id === undefined)
+                continue;
+            const id = this.editor.newId(item instanceof Door ? 'door' : 'light', renamed.values());
+            renamed.set(item.id, id);
+            item.id = id;
+        }
+        const copied = new Set(renamed.values());
+        for (const item of items) {
+            if (item instanceof Switch)
+                item.links = item.links.map(link => renamed.get(link) ?? link).filter(link => existing.has(link) || copied.has(link));
+        }
+    }
+
+    // adds new items and selects them
+    add(items: Item[]) {
+        if (items.length === 0)
+            return;
+
+        this.editor.history.execute(new CommandGroup(items.map(item => new AddCommand(this.editor, item))));
+        this.editor.selection.clear();
+        items.forEach(item => this.editor.selection.add(item));
+    }
+
+    draw(canvas: Canvas) {
+        this.transformer.draw(canvas);
+        if (!this.marqueeStart || !this.marqueeEnd)
+            return;
+
+        const rect = new LineSegment(this.marqueeStart, this.marqueeEnd).boundingRect();
+        canvas.fillRect(rect, 'rgba(0, 100, 255, 0.1)');
+        canvas.ctx.strokeStyle = '#06f';
+        canvas.ctx.lineWidth = 1;
+        canvas.strokeRect(rect);
     }
 }
 
 class BoxTool extends Tool {
-    readonly kind = 'add';
-    phantomBox?: Box | undefined;
+    readonly kind: string = 'add';
+    phantomBox?: Box | Door;
     dragStart?: Point;
 
+    // what the tool adds
+    create(rect: Rect): Box | Door {
+        return new Box(rect);
+    }
+
     onPointerMove(_ev: PointerEvent, p: Point) {
-        this.phantomBox ??= new Box({ w: GRID_STEP, h: GRID_STEP });
+        this.phantomBox ??= this.create({ x: 0, y: 0, w: GRID_STEP, h: GRID_STEP });
         const start = this.dragStart ?? snapTopLeft(p);
         this.phantomBox.rect = new LineSegment(start, snapTopLeft(p)).boundingRect();
         this.phantomBox.rect.w += GRID_STEP;
@@ -339,10 +920,8 @@ class BoxTool extends Tool {
     }
 
     onPointerUp() {
-        if (this.phantomBox) {
-            this.editor.shapes.push(this.phantomBox);
-            this.editor.onShapesUpdated();
-        }
+        if (this.phantomBox)
+            this.editor.history.execute(new AddCommand(this.editor, this.phantomBox));
         this.phantomBox = undefined;
         this.dragStart = undefined;
     }
@@ -362,6 +941,14 @@ class BoxTool extends Tool {
     }
 }
 
+class DoorTool extends BoxTool {
+    readonly kind = 'door';
+
+    create(rect: Rect): Door {
+        return new Door(rect, this.editor.newId('door'));
+    }
+}
+
 class PolygonTool extends Tool {
     readonly kind = 'polygon';
     phantomPolygon?: Polygon | undefined;
@@ -379,10 +966,8 @@ class PolygonTool extends Tool {
 
         const newPoint = snapCentre(p);
         if (this.phantomPolygon.corners.slice(0, -1).some(p => p.x === newPoint.x && p.y === newPoint.y)) {
-            if (this.phantomPolygon.corners.length > 1) {
-                this.editor.shapes.push(this.phantomPolygon);
-                this.editor.onShapesUpdated();
-            }
+            if (this.phantomPolygon.corners.length > 1)
+                this.editor.history.execute(new AddCommand(this.editor, this.phantomPolygon));
             this.phantomPolygon = undefined;
         } else {
             this.phantomPolygon.corners.push(newPoint);
@@ -401,64 +986,364 @@ class PolygonTool extends Tool {
     }
 }
 
-class CircleTool extends Tool {
-    readonly kind = 'circle';
-    phantomCircle?: Circle | undefined;
+class VertexTool extends Tool {
+    readonly kind = 'vertex';
+    polygon?: Polygon;
+    corner?: number; // index of the selected corner
+    dragging = false;
+    dragId = 0;
 
-    onPointerMove(_ev: PointerEvent, p: Point) {
-        if (!this.phantomCircle)
-            return;
+    #handleRadius(): number {
+        return HANDLE_RADIUS / this.editor.camera.zoom;
+    }
 
-        const newPoint = snapCentre(p);
-        const length = Math.max(1, Math.sqrt((newPoint.x - this.phantomCircle.origin.x) ** 2 + (newPoint.y - this.phantomCircle.origin.y) ** 2));
-        this.phantomCircle.radius = length;
+    #midpoints(polygon: Polygon): Point[] {
+        return polygon.corners.map((corner, i) => lerp(corner, polygon.corners[(i + 1) % polygon.corners.length], 0.5));
     }
 
-    onPointerUp() {
-        if (this.phantomCircle) {
-            this.editor.shapes.push(this.phantomCircle);
-            this.editor.onShapesUpdated();
+    // applies the new corners, unless they'd leave the polygon broken
+    #edit(corners: Point[]): boolean {
+        if (!this.polygon)
+            return false;
+
+        if (!isSimplePolygon(corners)) {
+            this.editor.showNotice(corners.length < 3 ? 'a polygon needs at least 3 corners' : "a polygon's edges can't cross");
+            return false;
         }
-        this.phantomCircle = undefined;
+        this.editor.history.execute(new CornersCommand(this.editor, this.polygon, corners, this.dragId));
+        return true;
     }
 
     onPointerDown(_ev: PointerEvent, p: Point) {
-        if (this.phantomCircle)
-            return;
+        // the polygon may have gone with an undo
+        if (this.polygon && !this.editor.shapes.includes(this.polygon))
+            this.polygon = undefined;
+        this.dragId = nextDragId++;
+
+        if (this.polygon) {
+            const corner = this.polygon.corners.findIndex(corner => vecLen(corner, p) <= this.#handleRadius());
+            if (corner !== -1) {
+                this.corner = corner;
+                this.dragging = true;
+                return;
+            }
 
-        this.phantomCircle ??= new Circle(snapCentre(p));
+            const midpoints = this.#midpoints(this.polygon);
+            const edge = midpoints.findIndex(mid => vecLen(mid, p) <= this.#handleRadius());
+            if (edge !== -1) {
+                const corners = copyCorners(this.polygon.corners);
+                corners.splice(edge + 1, 0, snapCentre(midpoints[edge]));
+                if (this.#edit(corners)) {
+                    this.corner = edge + 1;
+                    this.dragging = true;
+                }
+                return;
+            }
+        }
+
+        const item = this.editor.itemAt(p);
+        this.polygon = item instanceof Polygon ? item : undefined;
+        this.corner = undefined;
     }
 
-    draw(canvas: Canvas): void {
-        if (this.phantomCircle) {
-            canvas.ctx.globalAlpha = 0.6;
-            this.phantomCircle.draw(canvas);
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        if (!this.dragging || !this.polygon || this.corner === undefined)
+            return;
+
+        const newPos = snapCentre(p);
+        const current = this.polygon.corners[this.corner];
+        if (newPos.x === current.x && newPos.y === current.y)
+            return;
+
+        const corners = copyCorners(this.polygon.corners);
+        corners[this.corner] = newPos;
+        this.#edit(corners);
+    }
+
+    onPointerUp() {
+        this.dragging = false;
+    }
+
+    onKeyDown(ev: KeyboardEvent) {
+        if (!this.polygon || this.corner === undefined || (ev.key !== 'Delete' && ev.key !== 'Backspace'))
+            return;
+
+        ev.preventDefault();
+        this.dragId = nextDragId++;
+        const corners = copyCorners(this.polygon.corners);
+        corners.splice(this.corner, 1);
+        if (this.#edit(corners))
+            this.corner = undefined;
+    }
+
+    draw(canvas: Canvas) {
+        if (!this.polygon || !this.editor.shapes.includes(this.polygon))
+            return;
+
+        const r = this.#handleRadius();
+        canvas.ctx.lineWidth = 1.5 / this.editor.camera.zoom;
+        canvas.ctx.strokeStyle = this.polygon.border;
+        for (const mid of this.#midpoints(this.polygon))
+            canvas.strokeCircle(mid, r * 0.7);
+        for (const [i, corner] of this.polygon.corners.entries()) {
+            canvas.fillCircle(corner, r, i === this.corner ? '#f80' : this.polygon.border);
+            canvas.strokeCircle(corner, r);
+        }
+    }
+}
+
+class CircleTool extends Tool {
+    readonly kind = 'circle';
+    phantomCircle?: Circle | undefined;
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        if (!this.phantomCircle)
+            return;
+
+        const newPoint = snapCentre(p);
+        const length = Math.max(1, Math.sqrt((newPoint.x - this.phantomCircle.origin.x) ** 2 + (newPoint.y - this.phantomCircle.origin.y) ** 2));
+        this.phantomCircle.radius = length;
+    }
+
+    onPointerUp() {
+        if (this.phantomCircle)
+            this.editor.history.execute(new AddCommand(this.editor, this.phantomCircle));
+        this.phantomCircle = undefined;
+    }
+
+    onPointerDown(_ev: PointerEvent, p: Point) {
+        if (this.phantomCircle)
+            return;
+
+        this.phantomCircle ??= new Circle(snapCentre(p));
+    }
+
+    draw(canvas: Canvas): void {
+        if (this.phantomCircle) {
+            canvas.ctx.globalAlpha = 0.6;
+            this.phantomCircle.draw(canvas);
             canvas.ctx.globalAlpha = 1;
         }
     }
 }
 
+const NOISE_KEYS: { [key: string]: NoiseKind; } = { '1': 'running', '2': 'thrown', '3': 'door' };
+
+// a debug overlay showing how far a noise carries and which eyes would turn to it
+class NoiseTool extends Tool {
+    readonly kind = 'noise';
+    noiseKind: NoiseKind = 'thrown';
+    noise?: Noise;
+
+    onPointerDown(_ev: PointerEvent, p: Point) {
+        this.noise = new Noise(this.noiseKind, p);
+    }
+
+    onPointerMove(ev: PointerEvent, p: Point) {
+        if (ev.buttons !== 0)
+            this.noise = new Noise(this.noiseKind, p);
+    }
+
+    onKeyDown(ev: KeyboardEvent) {
+        if (!(ev.key in NOISE_KEYS))
+            return;
+
+        this.noiseKind = NOISE_KEYS[ev.key];
+        if (this.noise)
+            this.noise = new Noise(this.noiseKind, this.noise.pos);
+        this.editor.showNotice(`${this.noiseKind} noise`);
+    }
+
+    draw(canvas: Canvas) {
+        if (!this.noise)
+            return;
+
+        // the noise's range in the open, and through one wall
+        const zoom = this.editor.camera.zoom;
+        canvas.ctx.lineWidth = 2 / zoom;
+        canvas.ctx.strokeStyle = '#fa0';
+        canvas.strokeCircle(this.noise.pos, this.noise.loudness);
+        canvas.ctx.setLineDash([6 / zoom, 4 / zoom]);
+        canvas.strokeCircle(this.noise.pos, this.noise.loudness * WALL_DAMPING);
+        canvas.ctx.setLineDash([]);
+        canvas.fillCircle(this.noise.pos, 4 / zoom, '#fa0');
+
+        // eyes in range either hear it, or have it muffled by the walls in between
+        for (const eye of this.editor.eyes) {
+            if (vecLen(this.noise.pos, eye.pos) > this.noise.loudness)
+                continue;
+
+            const heard = this.noise.reaches(eye.pos, this.editor.shapeIndex);
+            canvas.ctx.strokeStyle = heard ? '#f60' : 'rgba(0, 0, 0, 0.3)';
+            if (!heard)
+                canvas.ctx.setLineDash([4 / zoom, 4 / zoom]);
+            canvas.drawLine(this.noise.pos, eye.pos);
+            canvas.ctx.setLineDash([]);
+        }
+    }
+}
+
+class StartTool extends Tool {
+    readonly kind = 'start';
+    phantom?: Point;
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        this.phantom = snapCentre(p);
+    }
+
+    onPointerUp(_ev: PointerEvent, p: Point) {
+        const start = snapCentre(p);
+        if (this.editor.shapeIndex.query(grow({ x: start.x, y: start.y, w: 0, h: 0 }, PLAYER_RADIUS * 2)).some(shape => distanceToShape(shape, start) < PLAYER_RADIUS))
+            this.editor.showNotice("the player wouldn't fit there");
+        else
+            this.editor.history.execute(new StartCommand(this.editor, start));
+    }
+
+    onKeyDown(ev: KeyboardEvent) {
+        if ((ev.key === 'Delete' || ev.key === 'Backspace') && this.editor.start) {
+            this.editor.history.execute(new StartCommand(this.editor, undefined));
+            this.editor.showNotice('the game will find somewhere to start');
+        }
+    }
+
+    draw(canvas: Canvas) {
+        if (!this.phantom)
+            return;
+
+        canvas.ctx.globalAlpha = 0.4;
+        drawStart(canvas, this.phantom);
+        canvas.ctx.globalAlpha = 1;
+    }
+}
+
+// a debug overlay of where guards can walk, with a test path between two clicked points
+class NavTool extends Tool {
+    readonly kind = 'nav';
+    from?: Point;
+    to?: Point;
+    path?: Point[];
+    pathRevision = -1; // the nav grid revision the path was found on
+
+    onPointerDown(_ev: PointerEvent, p: Point) {
+        if (!this.from || this.to) {
+            this.from = Object.assign({}, p);
+            this.to = undefined;
+        } else {
+            this.to = Object.assign({}, p);
+        }
+        this.pathRevision = -1;
+    }
+
+    draw(canvas: Canvas) {
+        const zoom = this.editor.camera.zoom;
+        const nav = this.editor.navGrid;
+        // too many points to be worth drawing when zoomed right out
+        if (nav.step * zoom >= 4) {
+            for (const p of nav.blockedPoints(this.editor.camera.viewRect(this.editor.canvas.size)))
+                canvas.fillCircle(p, 1.5 / zoom, 'rgba(200, 0, 0, 0.5)');
+        }
+
+        if (this.from)
+            canvas.fillCircle(this.from, 4 / zoom, '#080');
+        if (!this.from || !this.to)
+            return;
+
+        // found again after any edit, so it follows changes made with the other tools
+        if (this.pathRevision !== nav.revision) {
+            this.path = nav.findPath(this.from, this.to);
+            this.pathRevision = nav.revision;
+        }
+        canvas.fillCircle(this.to, 4 / zoom, this.path ? '#080' : '#c00');
+        if (!this.path)
+            return;
+
+        canvas.ctx.strokeStyle = '#080';
+        canvas.ctx.lineWidth = 2 / zoom;
+        for (let i = 1; i < this.path.length; i++)
+            canvas.drawLine(this.path[i - 1], this.path[i]);
+    }
+}
+
 class RemoveTool extends Tool {
     readonly kind = 'remove';
 
     onPointerUp(_ev: PointerEvent, p: Point) {
-        for (const [i, eye] of this.editor.eyes.entries()) {
+        for (const eye of this.editor.eyes) {
             if (circleContains(eye.pos, EYE_RADIUS, p)) {
-                this.editor.eyes.splice(i, 1);
+                this.editor.history.execute(new RemoveCommand(this.editor, eye));
                 return;
             }
         }
 
-        for (const [i, shape] of this.editor.shapes.revEntries()) {
+        for (const item of [...this.editor.lights, ...this.editor.switches]) {
+            if (item.contains(p)) {
+                this.editor.history.execute(new RemoveCommand(this.editor, item));
+                return;
+            }
+        }
+
+        for (const [_, shape] of this.editor.shapes.revEntries()) {
             if (shape.contains(p)) {
-                this.editor.shapes.splice(i, 1);
-                this.editor.onShapesUpdated();
+                this.editor.history.execute(new RemoveCommand(this.editor, shape));
                 return;
             }
         }
     }
 }
 
+class LightTool extends Tool {
+    readonly kind = 'light';
+    phantom = new Light({ x: 0, y: 0 });
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        this.phantom.pos = Object.assign({}, p);
+    }
+
+    onPointerUp(_ev: PointerEvent, p: Point) {
+        this.editor.history.execute(new AddCommand(this.editor, new Light(p)));
+    }
+
+    draw(canvas: Canvas) {
+        drawLitArea(canvas, this.phantom, this.editor.shapeIndex);
+    }
+}
+
+// click to place a switch, or pick one and click doors and lights to link or unlink them
+class SwitchTool extends Tool {
+    readonly kind = 'switch';
+    active?: Switch;
+
+    onPointerUp(_ev: PointerEvent, p: Point) {
+        // it may have been undone or removed since
+        if (this.active && !this.editor.switches.includes(this.active))
+            this.active = undefined;
+
+        const item = this.editor.itemAt(p);
+        if (item instanceof Switch) {
+            this.active = item;
+        } else if (item instanceof Door || item instanceof Light) {
+            if (!this.active) {
+                this.editor.showNotice('pick a switch to link first');
+                return;
+            }
+            const id = item instanceof Door ? item.id : item.id ??= this.editor.newId('light');
+            this.editor.history.execute(new LinkCommand(this.active, id));
+        } else if (!item) {
+            this.active = new Switch(p);
+            this.editor.history.execute(new AddCommand(this.editor, this.active));
+        }
+    }
+
+    draw(canvas: Canvas) {
+        if (!this.active || !this.editor.switches.includes(this.active))
+            return;
+
+        canvas.ctx.strokeStyle = '#a3a';
+        canvas.ctx.lineWidth = 2 / this.editor.camera.zoom;
+        canvas.strokeCircle(this.active.pos, SWITCH_RADIUS + 5);
+    }
+}
+
 class EyeTool extends Tool {
     readonly kind = 'eye';
     phantomEye: Eye = new Eye({ x: 0, y: 0 });
@@ -471,14 +1356,13 @@ class EyeTool extends Tool {
 
     draw(canvas: Canvas) {
         if (this.activeEye)
-            this.activeEye.draw(canvas, this.editor.shapes);
+            this.activeEye.draw(canvas, this.editor.shapeIndex);
         else
-            this.phantomEye.draw(canvas, this.editor.shapes, 'rgba(11, 65, 97, 0.15)');
+            this.phantomEye.draw(canvas, this.editor.shapeIndex, 'rgba(11, 65, 97, 0.15)');
     }
 
     onPointerMove(_ev: PointerEvent, p: Point) {
         this.phantomEye.pos = Object.assign({}, p);
-        this.phantomEye.rays = undefined;
         if (this.activeEye) {
             this.activeEye.dist = vecLen(this.activeEye.pos, p);
             this.activeEye.lookAt(p);
@@ -494,463 +1378,531 @@ class EyeTool extends Tool {
         if (this.activeEye) {
             if (this.activeEye.dist > 10) {
                 this.activeEye.fov = Math.PI / 2;
-                this.editor.eyes.push(this.activeEye);
+                this.editor.history.execute(new AddCommand(this.editor, this.activeEye));
             }
             this.activeEye = undefined;
         }
     }
 }
 
+class PatrolTool extends Tool {
+    readonly kind = 'patrol';
+    activeEye?: Eye;
+    placing?: Waypoint;
+    patrolBefore: Waypoint[] = [];
+
+    onPointerDown(_ev: PointerEvent, p: Point) {
+        const eye = this.editor.eyes.find(eye => eye.contains(p));
+        if (eye) {
+            this.activeEye = eye;
+            return;
+        }
+
+        if (!this.activeEye)
+            return;
+
+        this.patrolBefore = copyPatrol(this.activeEye.patrol);
+        this.placing = { pos: snapCentre(p), wait: 1 };
+        this.activeEye.patrol.push(this.placing);
+    }
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        if (!this.placing)
+            return;
+
+        // dragging away from a new waypoint sets the direction to look in while waiting there
+        this.placing.look = vecLen(this.placing.pos, p) > EYE_RADIUS * 2
+            ? Math.atan2(p.y - this.placing.pos.y, p.x - this.placing.pos.x)
+            : undefined;
+    }
+
+    onPointerUp() {
+        if (this.placing && this.activeEye)
+            this.editor.history.execute(new PatrolCommand(this.activeEye, this.patrolBefore, this.activeEye.patrol));
+        this.placing = undefined;
+    }
+
+    onKeyDown(ev: KeyboardEvent) {
+        if (!this.activeEye || ev.ctrlKey || ev.metaKey)
+            return;
+
+        const patrol = copyPatrol(this.activeEye.patrol);
+        const lastWaypoint = patrol[patrol.length - 1];
+        if (ev.key === 'Backspace')
+            patrol.pop();
+        else if (lastWaypoint && ev.key >= '0' && ev.key <= '9')
+            lastWaypoint.wait = Number(ev.key);
+        else
+            return;
+
+        this.editor.history.execute(new PatrolCommand(this.activeEye, this.activeEye.patrol, patrol));
+    }
+
+    draw(canvas: Canvas) {
+        if (!this.activeEye)
+            return;
+
+        canvas.ctx.strokeStyle = '#c33';
+        canvas.ctx.lineWidth = 2;
+        canvas.strokeCircle(this.activeEye.pos, EYE_RADIUS + 3);
+        this.activeEye.drawPatrol(canvas, 'rgba(200, 30, 30, 0.9)');
+    }
+}
+
 export default class LevelEditor extends Scene {
     shapes: RevArray<Shape> = new RevArray<Shape>();
     eyes: Eye[] = [];
+    lights: Light[] = [];
+    switches: Switch[] = [];
+    guards: GuardTuning = Object.assign({}, DEFAULT_GUARD_TUNING);
+    start?: Point; // where the player starts, otherwise the game picks somewhere
+    shapeIndex = new SpatialGrid<Shape>(); // kept in step with shapes by onShapesUpdated
+    navGrid = new NavGrid(EYE_RADIUS); // where guards can walk, also kept up by onShapesUpdated
     toolBar = new ButtonBar({ x: 0, y: 0 }, 'top');
     saveBar = new ButtonBar({ x: 0, y: this.canvas.size.h }, 'bottom');
     activeTool: Tool = new HandTool(this);
-
-    constructor(canvas: Canvas) {
+    history = new History();
+    selection = new Set<Item>();
+    inspector = new Inspector(this.canvas.canvas.parentElement ?? document.body);
+    camera = new Camera();
+    panFrom?: Point; // screen position of the last pan event, while panning
+    spaceHeld = false;
+    // the slot the save button writes to, remembered for auto-load
+    #saveName = localStorage.getItem('levelEditor.saveName') ?? 'quicksave';
+    public get saveName(): string { return this.#saveName; }
+    public set saveName(saveName: string) {
+        this.#saveName = saveName;
+        localStorage.setItem('levelEditor.saveName', saveName);
+    }
+
+    notice?: { text: string, until: DOMHighResTimeStamp; };
+
+    // opens saveName if given, otherwise the last slot if auto-load is on
+    constructor(canvas: Canvas, saveName?: string) {
         super(canvas);
 
-        this.toolBar.addButton('🖐', 'drag wall/eye to move', () => this.activeTool = new HandTool(this));
+        this.inspector.onEdit = (property, value, editId) => {
+            const target = this.inspector.target === this.guards ? undefined : this.inspector.target as Item;
+            this.history.execute(new PropertyCommand(this, target, property, value, editId));
+        };
+
+        this.toolBar.addButton('🖐', 'drag wall/eye to move, drag handles to resize or rotate', () => this.activeTool = new HandTool(this));
+        this.toolBar.addButton('⬚', 'click, shift-click or drag a box to select; drag handles to resize or rotate; delete, arrows to nudge, ctrl+c/x/v/d', () => this.activeTool = new SelectTool(this));
         this.toolBar.addButton('⬛️', 'click to add box', () => this.activeTool = new BoxTool(this));
         this.toolBar.addButton('⚫️', 'click to add circle', () => this.activeTool = new CircleTool(this));
         this.toolBar.addButton('✏️', 'click to draw polygon, click existing point to finalise', () => this.activeTool = new PolygonTool(this));
+        this.toolBar.addButton('📐', 'click polygon to edit corners: drag a corner, click an edge midpoint to add one, delete removes the selected one', () => this.activeTool = new VertexTool(this));
         this.toolBar.addButton('➖', 'click to remove wall or eye', () => this.activeTool = new RemoveTool(this));
+        this.toolBar.addButton('🧭', 'show where guards can walk; click two points to find a path between them', () => this.activeTool = new NavTool(this));
+        this.toolBar.addButton('🔊', 'click to test a noise and see which eyes hear it (1 running, 2 thrown, 3 door)', () => this.activeTool = new NoiseTool(this));
+        this.toolBar.addButton('🏁', 'click to place where the player starts, delete to let the game choose', () => this.activeTool = new StartTool(this));
+        this.toolBar.addButton('💡', 'click to add a light', () => this.activeTool = new LightTool(this));
+        this.toolBar.addButton('🚪', 'click or drag to add a door', () => this.activeTool = new DoorTool(this));
+        this.toolBar.addButton('🔘', 'click to add a switch; click a switch, then doors and lights to link or unlink them', () => this.activeTool = new SwitchTool(this));
         this.toolBar.addButton('👁', 'cast rays', () => this.activeTool = new EyeTool(this));
+        this.toolBar.addButton('🚶', 'click eye, then click to add patrol waypoints (drag to set look direction, 0-9 sets wait, backspace removes)', () => this.activeTool = new PatrolTool(this));
 
         const autoLoadButton = this.saveBar.addButton('A', 'auto-load scene',
             active => localStorage.setItem('levelEditor.autoLoad', active ? 'true' : 'false'),
             'toggle'
         );
-        this.saveBar.addButton('📤', 'load scene', () => this.load('quicksave'), 'momentary');
-        this.saveBar.addButton('💾', 'save scene', () => this.save('quicksave'), 'momentary');
+        this.saveBar.addButton('📤', 'browse levels', () => this.manager?.push(new LevelBrowser(this.canvas, this)), 'momentary');
+        this.saveBar.addButton('💾', 'save scene', () => this.save(this.saveName), 'momentary');
         this.saveBar.addButton('🚮', 'clear scene', () => this.clear(), 'momentary');
+        this.saveBar.addButton('📦', 'export level as a file', () => downloadLevel(this.saveName, this), 'momentary');
+        this.saveBar.addButton('📂', 'import level from a file (or drop one here)', () => {
+            pickLevelFile().then(file => { if (file) this.importFile(file); });
+        }, 'momentary');
+        this.saveBar.addButton('🔗', 'copy share link', () => {
+            shareLink(this)
+                .then(link => navigator.clipboard.writeText(link))
+                .then(() => this.showNotice('share link copied'), () => this.showNotice("couldn't copy the share link"));
+        }, 'momentary');
+        this.saveBar.addButton('↩️', 'undo (ctrl+z)', () => this.history.undo(), 'momentary');
+        this.saveBar.addButton('↪️', 'redo (ctrl+shift+z)', () => this.history.redo(), 'momentary');
+        this.saveBar.addButton('▶️', 'play scene', () => {
+            // played from a copy of the level as it is now, rather than from a save slot
+            const level = serializeLevel(this);
+            this.manager?.push(new StealthGame(this.canvas, this.saveName, () => parseLevel(level)), true);
+        }, 'momentary');
+        this.saveBar.addButton('🏠', 'back to menu', () => this.manager?.pop(true), 'momentary');
 
         autoLoadButton.pressed = (localStorage.getItem('levelEditor.autoLoad') ?? 'true') === 'true';
-        if (autoLoadButton.pressed)
-            this.load('quicksave');
-
-        this.canvas.onResize = () => this.saveBar.origin = { x: 0, y: this.canvas.size.h };
-    }
-
-    save(saveName: string) {
-        localStorage.setItem('save.' + saveName, JSON.stringify({ shapes: this.shapes, eyes: this.eyes }));
-    }
-
-    load(saveName: string) {
-        this.clear();
-
-        const levelString = localStorage.getItem('save.' + saveName) ?? '{}';
-        const level = JSON.parse(levelString) ?? {};
-        if ('shapes' in level) {
-            for (const rawShape of level.shapes) {
-                const shape = rawShape as Shape;
-                switch (shape.kind) {
-                    case 'polygon':
-                        this.shapes.push(Polygon.deserialize(shape));
-                        break;
-                    case 'circle':
-                        this.shapes.push(Circle.deserialize(shape));
-                        break;
-                    case 'box':
-                        this.shapes.push(Box.deserialize(shape));
-                        break;
-                }
-            }
+        if (saveName !== undefined) {
+            if (this.load(saveName))
+                this.saveName = saveName;
+        } else if (autoLoadButton.pressed) {
+            this.load(this.saveName);
         }
-        if ('eyes' in level)
-            this.eyes = level.eyes.map((e: any) => Eye.deserialize(e));
+        // the initial level isn't something to undo
+        this.history.clear();
     }
 
-    clear() {
-        this.shapes = new RevArray<Shape>();
-        this.eyes = [];
+    exit() {
+        this.inspector.remove();
     }
 
-    drawGrid() {
-        this.canvas.ctx.strokeStyle = '#aaa';
-        for (let i = GRID_STEP; i < Math.max(this.canvas.size.w, this.canvas.size.h); i += GRID_STEP) {
-            this.canvas.ctx.lineWidth = (i % (GRID_STEP * 10) === 0) ? 2 : 1;
-            if (i < this.canvas.size.w)
-                this.canvas.drawLine({ x: i, y: 0 }, { x: i, y: this.canvas.size.h });
-            if (i < this.canvas.size.h)
-                this.canvas.drawLine({ x: 0, y: i }, { x: this.canvas.size.w, y: i });
-        }
+    pause() {
+        this.inspector.clear();
     }
 
-    draw(): void {
-        this.canvas.clear('#ccc');
-        this.drawGrid();
-
-        for (const shape of this.shapes) {
-            shape.draw(this.canvas);
-        }
-
-        for (const eye of this.eyes) {
-            eye.draw(this.canvas, this.shapes);
-            this.canvas.fillCircle(eye.pos, EYE_RADIUS, '#d66');
-        }
-
-        this.activeTool.draw?.(this.canvas);
-        this.toolBar.draw(this.canvas);
-        this.saveBar.draw(this.canvas);
+    resume() {
+        // a button may still think it's hovered from before the scene was covered
+        for (const button of [...this.toolBar.buttons, ...this.saveBar.buttons])
+            button.hovered = false;
     }
 
-    onPointerUp(ev: PointerEvent, p: Point) {
-        if (this.toolBar.onPointerUp(p) || this.saveBar.onPointerUp(p))
-            return;
-
-        this.activeTool.onPointerUp?.(ev, p);
+    onResize() {
+        this.saveBar.origin = { x: 0, y: this.canvas.size.h };
     }
 
-    onPointerDown(ev: PointerEvent, p: Point) {
-        if (this.toolBar.onPointerDown(p) || this.saveBar.onPointerDown(p))
-            return;
-
-        this.activeTool.onPointerDown?.(ev, p);
+    save(saveName: string) {
+        saveLevel(saveName, this);
+    }
+
+    // returns whether the level loaded
+    load(saveName: string): boolean {
+        try {
+            this.history.execute(new LevelCommand(this, loadLevel(saveName)));
+            return true;
+        } catch (e) {
+            if (!(e instanceof LevelFormatError))
+                throw e;
+            window.alert(`Can't load '${saveName}'\n${e.message}`);
+            return false;
+        }
     }
 
-    onPointerMove(ev: PointerEvent, p: Point) {
-        this.toolBar.onPointerMove(p);
-        this.saveBar.onPointerMove(p);
-        this.activeTool.onPointerMove?.(ev, p);
+    clear() {
+        this.history.execute(new LevelCommand(this, { shapes: new RevArray<Shape>(), eyes: [] }));
     }
 
-    onShapesUpdated() {
-        for (const eye of this.eyes)
-            eye.rays = undefined;
+    // replaces the current level (undoably), without saving it
+    importLevel(level: Level) {
+        this.history.execute(new LevelCommand(this, level));
     }
 
-    onKeyDown(ev: KeyboardEvent): void {
-        if (ev.key === 'Escape')
-            this.toolBar.latchedIdx = 0;
+    importFile(file: File) {
+        readLevelFile(file).then(level => this.importLevel(level), e => {
+            // a file that can't be read at all rejects with a DOMException rather than a LevelFormatError
+            window.alert(`Can't import '${file.name}'\n${e instanceof Error ? e.message : e}`);
+        });
     }
-}
-
-class Polygon implements Shape {
-    readonly kind = 'polygon';
-    corners: Point[];
-    colour = '#ccf';
-    border = '#337';
-    readonly snap = true;
 
-    constructor(startingPoint: Point) {
-        this.corners = [Object.assign({}, startingPoint)];
+    showNotice(text: string) {
+        this.notice = { text, until: performance.now() + 2000 };
     }
 
-    public get origin(): Point { return this.corners[0]; }
-    public set origin(p: Point) {
-        const diff = { x: p.x - this.origin.x, y: p.y - this.origin.y };
-        for (const corner of this.corners) {
-            corner.x += diff.x;
-            corner.y += diff.y;
-        }
+    onDrop(ev: DragEvent) {
+        const file = ev.dataTransfer?.files[0];
+        if (file)
+            this.importFile(file);
     }
 
-    cornersForEye(eye: Eye): Point[] {
-        if (this.contains(eye.pos))
-            return [];
-
-        const edges = [...this.lines()]
-            .map(([a, b]) => new LineSegment(a, b));
-
-        const corners: Point[] = [];
-        for (const corner of this.corners) {
-            if (corners.some(a => a.x === corner.x && a.y === corner.y))
-                continue;
-            const lineSeg = new LineSegment(eye.pos, corner);
-            const unobstructed = edges.every(edge => (edge.start.x === corner.x && edge.start.y === corner.y)
-                || (edge.end.x === corner.x && edge.end.y === corner.y)
-                || edge.intersection(lineSeg) === undefined);
-
-            if (unobstructed)
-                corners.push(corner);
-        }
-
-        return corners;
+    items(): Item[] {
+        return [...this.shapes, ...this.eyes, ...this.lights, ...this.switches];
     }
 
-    arcIntersections(arc: { pos: Point, dist: number }): Point[] {
-        // adapted from https://stackoverflow.com/a/1084899
-        const intersections: Point[] = [];
-        const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
-        for (const [start, end] of this.lines()) {
-            const d = { x: end.x - start.x, y: end.y - start.y };
-            const f = { x: start.x - arc.pos.x, y: start.y - arc.pos.y };
-
-            const a = dot(d, d);
-            const b = 2 * dot(f, d);
-            const c = dot(f, f) - arc.dist ** 2;
-
-            const discriminant = b * b - 4 * a * c;
-            if (discriminant >= 0) {
-                const det = Math.sqrt(discriminant);
+    // the topmost eye, light, switch or shape under p
+    itemAt(p: Point): Item | undefined {
+        const eye = this.eyes.find(eye => eye.contains(p));
+        if (eye)
+            return eye;
+        const light = this.lights.find(light => light.contains(p));
+        if (light)
+            return light;
+        const sw = this.switches.find(sw => sw.contains(p));
+        if (sw)
+            return sw;
 
-                // either solution may be on or off the ray so need to test both
-                // t1 is always the smaller value, because BOTH discriminant and
-                // a are nonnegative.
-                [(-b - det) / (2 * a), (-b + det) / (2 * a)]
-                    .filter(t => t > 0 && t < 1)
-                    .map(t => intersections.push({ x: start.x + d.x * t, y: start.y + d.y * t }));
-            }
+        for (const [_, shape] of this.shapes.revEntries()) {
+            if (shape.contains(p))
+                return shape;
         }
-
-        return intersections;
+        return undefined;
     }
 
-    lineIntersections(line: LineSegment): Point | undefined {
-        const approxEqual = (a: Point, b: Point): boolean => {
-            const epsilon = 0.0001;
-            return (a.x > (b.x - epsilon) && a.x < b.x + epsilon)
-                && (a.y > (b.y - epsilon) && a.y < b.y + epsilon);
-        }
+    // in world space, covering whatever the camera can see
+    drawGrid() {
+        const view = this.camera.viewRect(this.canvas.size);
+        // minor lines are dropped once they'd be too close together to make out
+        const step = GRID_STEP * this.camera.zoom < 4 ? GRID_STEP * 10 : GRID_STEP;
+        const start = snapTopLeft(view, step);
 
-        const intersections: Point[] = [];
-        for (let [p1, p2] of this.lines()) {
-            const intersection = line.intersection(new LineSegment(p1, p2));
-            if (intersection && !approxEqual(intersection, p1) && !approxEqual(intersection, p2))
-                intersections.push(intersection);
+        this.canvas.ctx.strokeStyle = '#aaa';
+        for (let x = start.x; x < view.x + view.w; x += step) {
+            this.canvas.ctx.lineWidth = ((x % (GRID_STEP * 10) === 0) ? 2 : 1) / this.camera.zoom;
+            this.canvas.drawLine({ x, y: view.y }, { x, y: view.y + view.h });
         }
-        return intersections.sort((a, b) => vecLen(line.start, a) - vecLen(line.start, b))[0];
-    }
-
-    boundingRect(): Rect {
-        const topLeft = { x: 9999999, y: 9999999 };
-        const bottomRight = { x: -1, y: -1 };
-        for (let corner of this.corners) {
-            topLeft.x = Math.min(topLeft.x, corner.x);
-            topLeft.y = Math.min(topLeft.y, corner.y);
-            bottomRight.x = Math.max(bottomRight.x, corner.x);
-            bottomRight.y = Math.max(bottomRight.y, corner.y);
+        for (let y = start.y; y < view.y + view.h; y += step) {
+            this.canvas.ctx.lineWidth = ((y % (GRID_STEP * 10) === 0) ? 2 : 1) / this.camera.zoom;
+            this.canvas.drawLine({ x: view.x, y }, { x: view.x + view.w, y });
         }
-
-        return { x: topLeft.x, y: topLeft.y, w: bottomRight.x - topLeft.x, h: bottomRight.y - topLeft.y };
     }
 
-    draw(canvas: Canvas) {
-        const cornerCount = this.corners.length;
-        if (cornerCount > 1) {
-            const firstCorner = this.corners[0];
-            canvas.ctx.beginPath();
-            canvas.ctx.moveTo(firstCorner.x, firstCorner.y);
+    draw(): void {
+        this.canvas.clear('#ccc');
+        this.camera.apply(this.canvas, () => this.drawWorld());
 
-            for (const corner of this.corners.slice(1))
-                canvas.ctx.lineTo(corner.x, corner.y);
-            canvas.ctx.lineTo(firstCorner.x, firstCorner.y);
+        // overlays stay in screen space
+        this.toolBar.draw(this.canvas);
+        this.saveBar.draw(this.canvas);
 
-            canvas.ctx.fillStyle = this.colour;
-            canvas.ctx.fill();
+        this.canvas.ctx.fillStyle = '#000';
+        this.canvas.fontSize = 14;
+        this.canvas.drawTextRect(this.saveName, { x: this.canvas.size.w - 8, y: this.canvas.size.h - 8, w: 0, h: 0 },
+            { horizontal: 'right', vertical: 'bottom' });
+        if (this.notice && performance.now() < this.notice.until)
+            this.canvas.drawTextRect(this.notice.text, { x: this.canvas.size.w - 8, y: this.canvas.size.h - 28, w: 0, h: 0 },
+                { horizontal: 'right', vertical: 'bottom' });
 
-            canvas.ctx.strokeStyle = this.border;
-            canvas.ctx.lineWidth = 2;
-            canvas.ctx.stroke();
-        }
+        this.syncInspector();
     }
 
-    *lines(): IterableIterator<[Point, Point]> {
-        for (let i = 0, j = this.corners.length - 1; i < this.corners.length; j = i++)
-            yield [this.corners[i], this.corners[j]];
-    }
+    drawWorld() {
+        this.drawGrid();
 
-    contains(p: Point): boolean {
-        // https://wrfranklin.org/Research/Short_Notes/pnpoly.html
-        let inside = false;
-        for (let [a, b] of this.lines()) {
-            const intersects =
-                ((a.y > p.y) != (b.y > p.y))
-                && (p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x);
-            if (intersects) inside = !inside;
+        for (const shape of this.shapes) {
+            shape.draw(this.canvas);
         }
-        return inside;
-    }
-
-    serialize(): any {
-        return {
-            kind: this.kind,
-            colour: this.colour,
-            border: this.border,
-            corners: this.corners,
-        };
-    }
 
-    static deserialize(raw: any): Polygon {
-        const polygon = new Polygon({ x: 0, y: 0 });
-        polygon.colour = raw.colour;
-        polygon.border = raw.border;
-        polygon.corners = raw.corners;
-
-        return polygon;
-    }
-}
+        for (const light of this.lights)
+            drawLitArea(this.canvas, light, this.shapeIndex);
 
-class Box implements Shape {
-    readonly kind = 'box';
-    rect: Rect;
-    colour: string = '#cfc';
-    border: string = '#373';
-    readonly snap = true;
+        for (const eye of this.eyes)
+            eye.drawPatrol(this.canvas);
 
-    public get top(): number { return this.rect.y; };
-    public get left(): number { return this.rect.x; };
-    public get bottom(): number { return this.rect.y + this.rect.h; };
-    public get right(): number { return this.rect.x + this.rect.w; };
+        for (const eye of this.eyes) {
+            eye.draw(this.canvas, this.shapeIndex);
+            this.canvas.fillCircle(eye.pos, EYE_RADIUS, '#d66');
+        }
 
-    constructor(rect: { x?: number, y?: number, w?: number, h?: number; }) {
-        this.rect = Object.assign({ x: 0, y: 0, w: 1, h: 1 }, rect);
-    }
+        for (const sw of this.switches)
+            sw.draw(this.canvas);
+        this.drawLinks();
+
+        if (this.start)
+            drawStart(this.canvas, this.start);
+
+        this.canvas.ctx.strokeStyle = '#06f';
+        this.canvas.ctx.lineWidth = 2;
+        for (const item of this.selection) {
+            if (item instanceof Eye) {
+                this.canvas.strokeCircle(item.pos, EYE_RADIUS + 3);
+                this.drawDetectionZones(item);
+            } else if (item instanceof Light) {
+                this.canvas.strokeCircle(item.pos, LIGHT_RADIUS + 3);
+            } else if (item instanceof Switch) {
+                this.canvas.strokeCircle(item.pos, SWITCH_RADIUS + 3);
+            } else {
+                this.canvas.ctx.setLineDash([4, 3]);
+                this.canvas.strokeRect(grow(item.boundingRect(), 8));
+                this.canvas.ctx.setLineDash([]);
+            }
+        }
 
-    public get origin(): Point { return { x: this.left, y: this.top }; }
-    public set origin(p: Point) {
-        this.rect.x = p.x;
-        this.rect.y = p.y;
+        this.activeTool.draw?.(this.canvas);
     }
 
-    cornersForEye(p: Eye): Point[] {
-        const topLeft = { x: this.left, y: this.top };
-        const bottomLeft = { x: this.left, y: this.bottom };
-        const topRight = { x: this.right, y: this.top };
-        const bottomRight = { x: this.right, y: this.bottom };
-
-        const corners = new Set<Point>();
-        if (p.pos.x < this.left) {
-            corners.add(topLeft);
-            corners.add(bottomLeft);
-        } else if (p.pos.x > this.right) {
-            corners.add(topRight);
-            corners.add(bottomRight);
+    // a dashed line from each switch to every door and light it's linked to
+    drawLinks() {
+        const targets = new Map<string, Point[]>();
+        const addTarget = (id: string, p: Point) => targets.set(id, [...targets.get(id) ?? [], p]);
+        for (const shape of this.shapes) {
+            if (shape instanceof Door)
+                addTarget(shape.id, { x: shape.rect.x + shape.rect.w / 2, y: shape.rect.y + shape.rect.h / 2 });
         }
-        if (p.pos.y < this.top) {
-            corners.add(topLeft);
-            corners.add(topRight);
-        } else if (p.pos.y > this.bottom) {
-            corners.add(bottomLeft);
-            corners.add(bottomRight);
+        for (const light of this.lights) {
+            if (light.id !== undefined)
+                addTarget(light.id, light.pos);
         }
-        return [...corners.values()];
-    }
 
-    arcIntersections(_arc: { pos: Point; dist: number; }): Point[] {
-        return [];
+        const ctx = this.canvas.ctx;
+        ctx.strokeStyle = 'rgba(170, 50, 170, 0.7)';
+        ctx.lineWidth = 1.5 / this.camera.zoom;
+        ctx.setLineDash([5 / this.camera.zoom, 4 / this.camera.zoom]);
+        for (const sw of this.switches) {
+            for (const p of sw.links.flatMap(id => targets.get(id) ?? []))
+                this.canvas.drawLine(sw.pos, p);
+        }
+        ctx.setLineDash([]);
     }
 
-    // TODO: make this correct
-    lineIntersections(line: LineSegment): Point | undefined {
-        const approxEqual = (a: Point, b: Point): boolean => {
-            const epsilon = 0.0001;
-            return (a.x > (b.x - epsilon) && a.x < b.x + epsilon)
-                && (a.y > (b.y - epsilon) && a.y < b.y + epsilon);
+    // the ids of every door and light
+    ids(): Set<string> {
+        const ids = new Set<string>();
+        for (const shape of this.shapes) {
+            if (shape instanceof Door)
+                ids.add(shape.id);
         }
-
-        const edges = [
-            new LineSegment({ x: this.top, y: this.left }, { x: this.top, y: this.right }),
-            new LineSegment({ x: this.top, y: this.right }, { x: this.bottom, y: this.right }),
-            new LineSegment({ x: this.bottom, y: this.right }, { x: this.bottom, y: this.left }),
-            new LineSegment({ x: this.bottom, y: this.left }, { x: this.top, y: this.left }),
-        ];
-        const intersections: Point[] = [];
-        for (let edge of edges) {
-            const intersection = line.intersection(edge);
-            if (intersection && !approxEqual(intersection, edge.start) && !approxEqual(intersection, edge.end))
-                intersections.push(intersection);
+        for (const light of this.lights) {
+            if (light.id !== undefined)
+                ids.add(light.id);
         }
-        return intersections.sort((a, b) => vecLen(line.start, a) - vecLen(line.start, b))[0];
+        return ids;
     }
 
-    contains(p: Point): boolean {
-        return contains(this.rect, p);
+    // an id no door or light has yet, nor any of reserved
+    newId(prefix: string, reserved: Iterable<string> = []): string {
+        const taken = new Set([...this.ids(), ...reserved]);
+        for (let n = 1; ; n++) {
+            if (!taken.has(`${prefix}${n}`))
+                return `${prefix}${n}`;
+        }
     }
 
-    draw(canvas: Canvas) {
-        canvas.fillRect(this.rect, this.colour);
+    // where a selected eye notices the player fastest: the close range, and the focus either side of which is peripheral
+    drawDetectionZones(eye: Eye) {
+        const { closeDist, focus } = eye.detection;
+        const ctx = this.canvas.ctx;
+        ctx.save();
+        ctx.strokeStyle = 'rgba(200, 30, 30, 0.5)';
+        ctx.lineWidth = 1 / this.camera.zoom;
+        ctx.setLineDash([4 / this.camera.zoom, 3 / this.camera.zoom]);
+
+        const from = eye.angle - Math.min(eye.fov, focus) / 2;
+        const to = eye.angle + Math.min(eye.fov, focus) / 2;
+        for (const angle of [from, to])
+            this.canvas.drawLine(eye.pos, { x: eye.pos.x + Math.cos(angle) * eye.dist, y: eye.pos.y + Math.sin(angle) * eye.dist });
+        ctx.beginPath();
+        ctx.arc(eye.pos.x, eye.pos.y, Math.min(closeDist, eye.dist), eye.angle - eye.fov / 2, eye.angle + eye.fov / 2);
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    // the inspector follows the selection when exactly one item is selected
+    syncInspector() {
+        const item = this.selection.size === 1 ? [...this.selection][0] : undefined;
+        const target = item ?? (this.selection.size === 0 ? this.guards : undefined);
+        if (target === this.inspector.target) {
+            this.inspector.refresh();
+            return;
+        }
 
-        canvas.ctx.strokeStyle = this.border;
-        canvas.ctx.lineWidth = 2;
-        canvas.strokeRect(grow(this.rect, -1));
+        if (item)
+            this.inspector.show(item, describeItem(item), inspectorProperties(item));
+        else if (target)
+            this.inspector.show(target, 'guards', guardProperties(this.guards));
+        else
+            this.inspector.clear();
     }
 
-    serialize(): any {
-        return {
-            kind: this.kind,
-            colour: this.colour,
-            border: this.border,
-            rect: this.rect,
-        };
-    }
+    // tools work in world coordinates, the button bars in screen coordinates
+    onPointerUp(ev: PointerEvent, p: Point) {
+        if (this.panFrom) {
+            this.panFrom = undefined;
+            this.canvas.canvas.style.cursor = this.spaceHeld ? 'grab' : 'default';
+            return;
+        }
 
-    static deserialize(raw: any): Box {
-        const rect = new Box(raw.rect);
-        rect.colour = raw.colour;
-        rect.border = raw.border;
+        if (this.toolBar.onPointerUp(p) || this.saveBar.onPointerUp(p))
+            return;
 
-        return rect;
+        this.activeTool.onPointerUp?.(ev, this.camera.toWorld(p));
     }
-}
 
-class Circle implements Shape {
-    readonly kind = 'circle';
-    colour: string = '#fcc';
-    border: string = '#f33';
-    readonly snap = true;
+    onPointerDown(ev: PointerEvent, p: Point) {
+        if (this.toolBar.onPointerDown(p) || this.saveBar.onPointerDown(p))
+            return;
 
-    radius = 1;
-    origin: Point;
+        // middle-drag or space-drag pans
+        if (ev.button === 1 || this.spaceHeld) {
+            this.panFrom = Object.assign({}, p);
+            this.canvas.canvas.style.cursor = 'grabbing';
+            return;
+        }
 
-    constructor(origin: Point) {
-        this.origin = Object.assign({}, origin);
+        this.activeTool.onPointerDown?.(ev, this.camera.toWorld(p));
     }
 
-    cornersForEye(p: Eye): Point[] {
-        const diff = { x: p.pos.x - this.origin.x, y: p.pos.y - this.origin.y };
-        const length = Math.sqrt(diff.x ** 2 + diff.y ** 2);
-
-        if (length <= this.radius) return [];
-        const th = Math.acos(this.radius / length);
-        const d = Math.atan2(diff.y, diff.x);
+    onPointerMove(ev: PointerEvent, p: Point) {
+        if (this.panFrom) {
+            this.camera.panBy({ x: p.x - this.panFrom.x, y: p.y - this.panFrom.y });
+            this.panFrom = Object.assign({}, p);
+            return;
+        }
 
-        return [
-            { x: this.origin.x + Math.cos(d + th) * this.radius, y: this.origin.y + Math.sin(d + th) * this.radius },
-            { x: this.origin.x + Math.cos(d - th) * this.radius, y: this.origin.y + Math.sin(d - th) * this.radius },
-        ];
+        this.toolBar.onPointerMove(p);
+        this.saveBar.onPointerMove(p);
+        this.activeTool.onPointerMove?.(ev, this.camera.toWorld(p));
     }
 
-    // TODO: make this correct
-    arcIntersections(_arc: { pos: Point; dist: number; }): Point[] {
-        return [];
+    // sweeping eyes turn in the editor too, so the gaps between passes can be timed
+    update(dt: number) {
+        for (const eye of this.eyes)
+            eye.updateSweep(dt);
     }
 
-    // TODO: make this correct
-    lineIntersections(_seg: LineSegment): Point | undefined {
-        return;
+    onWheel(ev: WheelEvent, p: Point) {
+        this.camera.zoomAt(p, Math.exp(-ev.deltaY * 0.001));
     }
 
-    contains(p: Point): boolean {
-        return circleContains(this.origin, this.radius, p);
-    }
+    // changed is what an edit touched, or everything if not given. Eyes and lights recast themselves when they move,
+    // so only the ones that could see a changed shape, where it was or where it is now, need telling
+    onShapesUpdated(changed?: Item[]) {
+        if (!changed) {
+            this.shapeIndex.sync(this.shapes.filter(blocks), shape => shape.boundingRect());
+            this.navGrid.sync(this.shapes.filter(blocks));
+            for (const eye of this.eyes)
+                eye.rays = undefined;
+            for (const light of this.lights)
+                light.invalidate();
+            return;
+        }
 
-    draw(canvas: Canvas) {
-        canvas.fillCircle(this.origin, this.radius, this.colour);
+        const dirty: Rect[] = [];
+        for (const item of changed) {
+            if (!isShape(item))
+                continue;
 
-        canvas.ctx.strokeStyle = this.border;
-        canvas.ctx.lineWidth = 2;
-        canvas.strokeCircle(this.origin, this.radius - 0.5);
-    }
+            // open doors come out of the index too, so they stop blocking sight
+            const before = this.shapeIndex.rectOf(item);
+            if (before)
+                dirty.push(before);
+            if (this.shapes.includes(item) && blocks(item)) {
+                const after = item.boundingRect();
+                dirty.push(after);
+                this.shapeIndex.update(item, after);
+                this.navGrid.update(item);
+            } else {
+                this.shapeIndex.remove(item);
+                this.navGrid.remove(item);
+            }
+        }
 
-    serialize(): any {
-        return {
-            kind: this.kind,
-            colour: this.colour,
-            border: this.border,
-            radius: this.radius,
-            origin: this.origin
-        };
+        for (const eye of this.eyes) {
+            if (dirty.some(rect => eye.reaches(rect)))
+                eye.rays = undefined;
+        }
+        for (const light of this.lights) {
+            if (dirty.some(rect => light.reaches(rect)))
+                light.invalidate();
+        }
     }
 
-    static deserialize(raw: any): Circle {
-        const circle = new Circle(raw.origin);
-        circle.colour = raw.colour;
-        circle.border = raw.border;
-        circle.radius = raw.radius;
-
-        return circle;
+    onKeyDown(ev: KeyboardEvent): void {
+        if ((ev.ctrlKey || ev.metaKey) && (ev.key === 'z' || ev.key === 'Z' || ev.key === 'y')) {
+            ev.preventDefault();
+            if (ev.shiftKey || ev.key === 'y')
+                this.history.redo();
+            else
+                this.history.undo();
+        } else if (ev.key === 'Escape')
+            this.toolBar.latchedIdx = 0;
+        else if (ev.key === ' ') {
+            ev.preventDefault();
+            if (!this.spaceHeld && !this.panFrom)
+                this.canvas.canvas.style.cursor = 'grab';
+            this.spaceHeld = true;
+        } else
+            this.activeTool.onKeyDown?.(ev);
+    }
+
+    onKeyUp(ev: KeyboardEvent): void {
+        if (ev.key === ' ') {
+            this.spaceHeld = false;
+            if (!this.panFrom)
+                this.canvas.canvas.style.cursor = 'default';
+        }
     }
-}
\ No newline at end of file
+}
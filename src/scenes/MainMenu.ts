@@ -0,0 +1,57 @@
+import { benchmarkLevel } from "../lib/Benchmark";
+import ButtonBar from "../lib/ButtonBar";
+import Canvas, { Point } from "../lib/Canvas";
+import Scene from "../lib/Scene";
+import LevelEditor from "./LevelEditor";
+import StealthGame from "./StealthGame";
+
+const MENU_BUTTON_SIZE = 80;
+
+export default class MainMenu extends Scene {
+    menuBar = new ButtonBar({ x: 0, y: 0 }, 'left', MENU_BUTTON_SIZE);
+
+    constructor(canvas: Canvas) {
+        super(canvas);
+
+        this.menuBar.addButton('✏️', 'level editor', () => this.manager?.push(new LevelEditor(this.canvas), true), 'momentary');
+        this.menuBar.addButton('▶️', 'play quicksave', () => this.manager?.push(new StealthGame(this.canvas, 'quicksave'), true), 'momentary');
+        // played straight from memory, so it can't overwrite a save
+        this.menuBar.addButton('⏱️', 'benchmark: 400 shapes, 40 patrolling eyes', () => {
+            this.manager?.push(new StealthGame(this.canvas, 'benchmark', () => benchmarkLevel(this.canvas.size)), true);
+        }, 'momentary');
+
+        this.onResize();
+    }
+
+    onResize() {
+        const width = this.menuBar.buttons.length * MENU_BUTTON_SIZE;
+        this.menuBar.origin = { x: (this.canvas.size.w - width) / 2, y: (this.canvas.size.h - MENU_BUTTON_SIZE) / 2 };
+    }
+
+    resume() {
+        // a button may still think it's hovered from before the scene was covered
+        for (const button of this.menuBar.buttons)
+            button.hovered = false;
+    }
+
+    draw(): void {
+        this.canvas.clear('#ccc');
+
+        this.canvas.ctx.fillStyle = '#000';
+        this.canvas.fontSize = 48;
+        this.canvas.drawTextRect('Stealth Game', {
+            x: 0, y: this.menuBar.origin.y - 2 * MENU_BUTTON_SIZE,
+            w: this.canvas.size.w, h: MENU_BUTTON_SIZE,
+        });
+
+        this.menuBar.draw(this.canvas);
+    }
+
+    onPointerUp(_ev: PointerEvent, p: Point) {
+        this.menuBar.onPointerUp(p);
+    }
+
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        this.menuBar.onPointerMove(p);
+    }
+}
@@ -0,0 +1,287 @@
+import Canvas, { Point } from "../lib/Canvas";
+import { GRID_STEP, LineSegment, unitVector, vecLen } from "../lib/Geometry";
+import Guard, { DEFAULT_GUARD_TUNING, GuardState } from "../lib/Guard";
+import { blocks, distanceToShape, Door, Eye, EYE_RADIUS, Level, Light, loadLevel, Shape, Switch } from "../lib/Level";
+import { LevelFormatError } from "../lib/LevelFormat";
+import { drawLighting, lightLevel } from "../lib/Lighting";
+import NavGrid from "../lib/NavGrid";
+import Noise, { NoiseKind } from "../lib/Noise";
+import Player, { PLAYER_RADIUS, VISIBILITY } from "../lib/Player";
+import Scene from "../lib/Scene";
+import SpatialGrid from "../lib/SpatialGrid";
+
+const REACH = 16; // px from the player's edge to a door or switch they can use
+const FOOTFALL_INTERVAL = 0.4; // seconds between running footsteps
+const THROW_RANGE = 200;
+
+const CONE_COLOURS: { [state in GuardState]?: string } = {
+    suspicious: 'rgba(220, 140, 0, 0.2)',
+    search: 'rgba(220, 140, 0, 0.2)',
+    alert: 'rgba(200, 30, 30, 0.25)',
+};
+
+export default class StealthGame extends Scene {
+    saveName: string; // or just a name for the level, if it isn't played from a save
+    #load: () => Level; // called on every restart, for a fresh copy of the level
+    shapes: Shape[] = [];
+    shapeIndex = new SpatialGrid<Shape>();
+    nav = new NavGrid(EYE_RADIUS); // where guards can walk, kept up with the doors like shapeIndex
+    eyes: Eye[] = [];
+    lights: Light[] = [];
+    switches: Switch[] = [];
+    lightMap: Canvas; // the lights, added up to darken the level with
+    guards: Guard[] = [];
+    player: Player = new Player({ x: 0, y: 0 });
+    state: 'playing' | 'caught' | 'broken' = 'playing';
+    loadError?: string;
+    start?: Point; // where the level puts the player, if it says
+    noises: Noise[] = [];
+    held = new Set<string>(); // codes of the keys being held down
+    pointer: Point = { x: 0, y: 0 };
+    debug = false; // toggled with F3
+    #footfallRemaining = 0;
+
+    constructor(canvas: Canvas, saveName = 'quicksave', load = () => loadLevel(saveName)) {
+        super(canvas);
+        this.saveName = saveName;
+        this.#load = load;
+        this.lightMap = canvas.createChild();
+        this.restart();
+    }
+
+    restart() {
+        try {
+            const level = this.#load();
+            this.shapes = level.shapes;
+            this.eyes = level.eyes;
+            this.lights = level.lights ?? [];
+            this.switches = level.switches ?? [];
+            this.guards = level.eyes.map(eye => new Guard(eye, level.guards ?? DEFAULT_GUARD_TUNING));
+            this.shapeIndex.sync(this.shapes.filter(blocks), shape => shape.boundingRect());
+            this.nav.sync(this.shapes.filter(blocks));
+            this.start = level.start;
+        } catch (e) {
+            if (!(e instanceof LevelFormatError))
+                throw e;
+
+            this.loadError = e.message;
+            this.state = 'broken';
+            return;
+        }
+
+        this.player = new Player(this.start ?? this.findSpawnPoint());
+        this.noises = [];
+        this.state = 'playing';
+    }
+
+    // guards that hear the noise get suspicious
+    makeNoise(kind: NoiseKind, pos: Point) {
+        const noise = new Noise(kind, pos);
+        this.noises.push(noise);
+        const listeners = noise.listeners(this.eyes, this.shapeIndex);
+        for (const guard of this.guards) {
+            if (listeners.includes(guard.eye))
+                guard.hear(noise.pos);
+        }
+    }
+
+    // something lands towards target, short of the first wall in the way, and makes a noise there
+    throwAt(target: Point) {
+        const dir = unitVector(this.player.pos, target);
+        if (dir === undefined)
+            return;
+
+        let range = Math.min(vecLen(this.player.pos, target), THROW_RANGE);
+        const flight = new LineSegment(this.player.pos, { x: this.player.pos.x + dir.x * range, y: this.player.pos.y + dir.y * range });
+        for (const shape of this.shapeIndex.query(flight.boundingRect())) {
+            const hit = shape.lineIntersections(flight);
+            if (hit)
+                range = Math.min(range, Math.max(vecLen(this.player.pos, hit) - PLAYER_RADIUS, 0));
+        }
+        this.makeNoise('thrown', { x: this.player.pos.x + dir.x * range, y: this.player.pos.y + dir.y * range });
+    }
+
+    // WASD or the arrow keys to move; shift to run (noisily), C to sneak
+    steer() {
+        const held = (...codes: string[]) => codes.some(code => this.held.has(code));
+        this.player.heading = {
+            x: (held('KeyD', 'ArrowRight') ? 1 : 0) - (held('KeyA', 'ArrowLeft') ? 1 : 0),
+            y: (held('KeyS', 'ArrowDown') ? 1 : 0) - (held('KeyW', 'ArrowUp') ? 1 : 0),
+        };
+        this.player.gait = held('ShiftLeft', 'ShiftRight') ? 'run' : held('KeyC') ? 'sneak' : 'walk';
+    }
+
+    // opens or closes a door, unless it would shut on the player or a guard. Eyes and lights that could see through it recast
+    setDoor(door: Door, open: boolean) {
+        if (!open && (distanceToShape(door, this.player.pos) < PLAYER_RADIUS || this.eyes.some(eye => distanceToShape(door, eye.pos) < EYE_RADIUS)))
+            return;
+
+        door.open = open;
+        const rect = door.boundingRect();
+        if (open) {
+            this.shapeIndex.remove(door);
+            this.nav.remove(door);
+        } else {
+            this.shapeIndex.update(door, rect);
+            this.nav.update(door);
+        }
+
+        for (const eye of this.eyes) {
+            if (eye.reaches(rect))
+                eye.rays = undefined;
+        }
+        for (const light of this.lights) {
+            if (light.reaches(rect))
+                light.invalidate();
+        }
+        this.makeNoise('door', { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 });
+    }
+
+    // flips the doors and lights a switch is linked to
+    flip(sw: Switch) {
+        for (const shape of this.shapes) {
+            if (shape instanceof Door && sw.links.includes(shape.id))
+                this.setDoor(shape, !shape.open);
+        }
+        for (const light of this.lights) {
+            if (light.id !== undefined && sw.links.includes(light.id))
+                light.on = !light.on;
+        }
+    }
+
+    // uses the nearest switch in reach, or failing that the nearest door
+    interact() {
+        const reach = PLAYER_RADIUS + REACH;
+        const near = <T>(items: T[], dist: (item: T) => number) => items
+            .filter(item => dist(item) <= reach)
+            .sort((a, b) => dist(a) - dist(b))[0];
+
+        const sw = near(this.switches, sw => vecLen(sw.pos, this.player.pos));
+        if (sw) {
+            this.flip(sw);
+            return;
+        }
+
+        const doors = this.shapes.filter((shape): shape is Door => shape instanceof Door);
+        const door = near(doors, door => distanceToShape(door, this.player.pos));
+        if (door)
+            this.setDoor(door, !door.open);
+    }
+
+    // first grid point (scanning from the top-left) that is outside every shape and eye
+    findSpawnPoint(): Point {
+        for (let y = GRID_STEP * 2; y < this.canvas.size.h; y += GRID_STEP) {
+            for (let x = GRID_STEP * 2; x < this.canvas.size.w; x += GRID_STEP) {
+                const p = { x, y };
+                if (!this.shapes.some(shape => shape.contains(p)) && !this.eyes.some(eye => eye.sees(this.canvas, this.shapeIndex, p)))
+                    return p;
+            }
+        }
+
+        return { x: GRID_STEP * 2, y: GRID_STEP * 2 };
+    }
+
+    update(dt: number) {
+        if (this.state !== 'playing')
+            return;
+
+        const solid = this.shapes.filter(blocks);
+        // sneaking in the shadows makes the player hardest to notice
+        const visibility = VISIBILITY[this.player.gait] * lightLevel(this.player.pos, this.lights, this.shapeIndex);
+        for (const guard of this.guards) {
+            const inSight = guard.eye.sees(this.canvas, this.shapeIndex, this.player.pos);
+            guard.update(dt, this.player.pos, inSight ? guard.eye.detectionRate(this.player.pos, visibility) : 0, solid, this.nav);
+        }
+
+        for (const noise of this.noises)
+            noise.age += dt;
+        this.noises = this.noises.filter(noise => !noise.faded);
+
+        this.steer();
+        const moved = this.player.move(dt, this.shapeIndex);
+        if (this.player.gait === 'run' && moved > 0) {
+            this.#footfallRemaining -= dt;
+            if (this.#footfallRemaining <= 0) {
+                this.makeNoise('running', this.player.pos);
+                this.#footfallRemaining = FOOTFALL_INTERVAL;
+            }
+        } else {
+            this.#footfallRemaining = 0;
+        }
+
+        if (this.guards.some(guard => guard.catches(this.player.pos))) {
+            this.state = 'caught';
+            this.player.prevPos = Object.assign({}, this.player.pos);
+        }
+    }
+
+    draw(_timestamp: DOMHighResTimeStamp, alpha: number): void {
+        this.canvas.clear('#ccc');
+
+        if (this.state === 'broken') {
+            this.canvas.ctx.fillStyle = '#000';
+            this.canvas.fontSize = 24;
+            this.canvas.drawTextRect(`can't load '${this.saveName}' (${this.loadError}), press Esc to go back`, this.canvas.rect);
+            return;
+        }
+
+        for (const shape of this.shapes)
+            shape.draw(this.canvas);
+        drawLighting(this.canvas, this.lightMap, this.lights, this.shapeIndex);
+
+        for (const sw of this.switches)
+            sw.draw(this.canvas);
+
+        for (const noise of this.noises)
+            noise.draw(this.canvas);
+
+        for (const guard of this.guards) {
+            const coneColour = this.state === 'caught' ? CONE_COLOURS.alert : CONE_COLOURS[guard.state] ?? 'rgba(0, 0, 0, 0.15)';
+            guard.eye.draw(this.canvas, this.shapeIndex, coneColour, this.debug);
+            this.canvas.fillCircle(guard.eye.pos, EYE_RADIUS, '#d66');
+            guard.drawState(this.canvas, this.debug);
+        }
+
+        this.player.draw(this.canvas, alpha);
+
+        if (this.state === 'caught') {
+            this.canvas.ctx.fillStyle = '#000';
+            this.canvas.fontSize = 32;
+            this.canvas.drawTextRect('caught! press R to retry', this.canvas.rect);
+        }
+    }
+
+    onResize() {
+        this.lightMap = this.canvas.createChild();
+    }
+
+    // where the pointer is, to aim throws at
+    onPointerMove(_ev: PointerEvent, p: Point) {
+        this.pointer = Object.assign({}, p);
+    }
+
+    onKeyDown(ev: KeyboardEvent): void {
+        this.held.add(ev.code);
+        if (ev.key.startsWith('Arrow'))
+            ev.preventDefault();
+
+        if (ev.key === 'r' || ev.key === 'R')
+            this.restart();
+        else if (ev.key === 'Escape')
+            this.manager?.pop(true);
+        else if ((ev.key === 'e' || ev.key === 'E') && this.state === 'playing')
+            this.interact();
+        else if (ev.key === 'F3') {
+            ev.preventDefault();
+            this.debug = !this.debug;
+        }
+        else if (ev.key === ' ' && this.state === 'playing') {
+            ev.preventDefault();
+            this.throwAt(this.pointer);
+        }
+    }
+
+    onKeyUp(ev: KeyboardEvent): void {
+        this.held.delete(ev.code);
+    }
+}
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+// the compression streams aren't in TypeScript 4.9's DOM lib yet
+type CompressionFormat = 'deflate' | 'deflate-raw' | 'gzip';
+declare class CompressionStream implements GenericTransformStream {
+    constructor(format: CompressionFormat);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}
+declare class DecompressionStream implements GenericTransformStream {
+    constructor(format: CompressionFormat);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}